@@ -37,6 +37,39 @@ export default defineConfig([
 		],
 		onwarn,
 	},
+	{
+		input: 'src/view/worker.ts',
+		output: [
+			{
+				file: 'out/worker.js',
+				format: 'iife',
+				sourcemap: true,
+			},
+		],
+		plugins: [
+			resolve(),
+			commonjs(),
+			typescript(),
+		],
+		onwarn,
+	},
+	{
+		input: 'src/cli/cli.ts',
+		output: [
+			{
+				file: 'out/cli.js',
+				format: 'cjs',
+				sourcemap: true,
+				banner: '#!/usr/bin/env node',
+			},
+		],
+		plugins: [
+			resolve(),
+			commonjs(),
+			typescript(),
+		],
+		onwarn,
+	},
 ])
 
 function onwarn(warning) {
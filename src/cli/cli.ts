@@ -0,0 +1,252 @@
+import envPaths from 'env-paths'
+import fs from 'fs/promises'
+import path from 'path'
+import { format } from 'util'
+import { DataLoader, VIEW_TYPES } from '../extension/dataLoader'
+import { DEFAULT_DOWNLOAD_POLICY, Downloader } from '../extension/downloader'
+import type { Logger, Slice } from '../shared'
+import { loadRegistries } from '../view/registries'
+import { createSampler } from '../view/samplers'
+import { defaultSlice, parseSeed } from '../view/util'
+import { samplePixels, sampleValues } from './grid'
+import { encodePng } from './png'
+
+const USAGE = `Usage: worldgen-tools --type <type> --id <identifier> [options]
+
+Renders previews of worldgen files without VS Code.
+
+Options:
+  --type <type>        noise, density_function, noise_settings or dimension
+  --id <identifier>    Resource to render, can be repeated
+  --pack <path>        Data pack folder or zip, can be repeated, later packs override earlier packs
+  --version <version>  Minecraft version of the vanilla data, detected from the last pack by default
+  --vanilla <path>     Jar, zip or folder to read vanilla data from instead of downloading it
+  --seed <seed>        World seed, text is hashed like Minecraft does (default: 0)
+  --slice <axis:coord> Plane to render, for example xz:64 (default: xz:64 for dimensions, xy:0 otherwise)
+  --region <u,v,w,h>   Area in blocks along the axes of the slice (default: -128,-128,256,256)
+  --scale <blocks>     Blocks per pixel (default: 1)
+  --layer <name>       Layer of noise settings and dimensions, for example temperature
+  --config <json>      Sampler configuration, as stored in the preview state
+  --format <format>    png, or json for a grid of raw values (default: png)
+  --out <folder>       Folder to write to, as <namespace>/<path>.<format> (default: .)
+  --verbose            Log loading of data
+  --help               Show this message
+`
+
+type Options = {
+	type: string,
+	ids: string[],
+	packs: string[],
+	version: string | undefined,
+	vanilla: string | undefined,
+	seed: string,
+	slice: Slice | undefined,
+	region: { u: number, v: number, width: number, height: number },
+	scale: number,
+	config: unknown,
+	format: 'png' | 'json',
+	out: string,
+	verbose: boolean,
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): Options | undefined {
+	const options: Options = {
+		type: '',
+		ids: [],
+		packs: [],
+		version: undefined,
+		vanilla: undefined,
+		seed: '0',
+		slice: undefined,
+		region: { u: -128, v: -128, width: 256, height: 256 },
+		scale: 1,
+		config: undefined,
+		format: 'png',
+		out: '.',
+		verbose: false,
+	}
+	for (let i = 0; i < args.length; i += 1) {
+		const arg = args[i]
+		const value = () => {
+			const next = args[++i]
+			if (next === undefined) {
+				throw new UsageError(`Missing value for ${arg}`)
+			}
+			return next
+		}
+		switch (arg) {
+			case '--help':
+				return undefined
+			case '--verbose':
+				options.verbose = true
+				break
+			case '--type': {
+				const type = value()
+				const match = VIEW_TYPES.find(t => t.key === type || t.key.endsWith(`/${type}`))
+				if (!match) {
+					throw new UsageError(`Unknown type ${type}, expected one of ${VIEW_TYPES.map(t => t.key).join(', ')}`)
+				}
+				options.type = match.key
+				break
+			}
+			case '--id': {
+				const id = value()
+				options.ids.push(id.includes(':') ? id : `minecraft:${id}`)
+				break
+			}
+			case '--pack':
+				options.packs.push(path.resolve(value()))
+				break
+			case '--version':
+				options.version = value()
+				break
+			case '--vanilla':
+				options.vanilla = path.resolve(value())
+				break
+			case '--seed':
+				options.seed = parseSeed(value())
+				break
+			case '--slice': {
+				const m = value().match(/^(xz|xy|zy):(-?\d+)$/)
+				if (!m) {
+					throw new UsageError('Expected --slice as <axis>:<coord> with axis xz, xy or zy')
+				}
+				options.slice = { axis: m[1] as Slice['axis'], coord: parseInt(m[2]) }
+				break
+			}
+			case '--region': {
+				const parts = value().split(',').map(Number)
+				if (parts.length !== 4 || parts.some(isNaN) || parts[2] <= 0 || parts[3] <= 0) {
+					throw new UsageError('Expected --region as <u>,<v>,<width>,<height>')
+				}
+				const [u, v, width, height] = parts
+				options.region = { u, v, width, height }
+				break
+			}
+			case '--scale':
+				options.scale = Number(value())
+				if (!(options.scale > 0)) {
+					throw new UsageError('Expected --scale to be a positive number')
+				}
+				break
+			case '--layer':
+				options.config = value()
+				break
+			case '--config':
+				try {
+					options.config = JSON.parse(value())
+				} catch (e) {
+					throw new UsageError(`Invalid --config: ${(e as any).message}`)
+				}
+				break
+			case '--format': {
+				const format = value()
+				if (format !== 'png' && format !== 'json') {
+					throw new UsageError('Expected --format to be png or json')
+				}
+				options.format = format
+				break
+			}
+			case '--out':
+				options.out = path.resolve(value())
+				break
+			default:
+				throw new UsageError(`Unknown option ${arg}`)
+		}
+	}
+	if (!options.type) {
+		throw new UsageError('Missing --type')
+	}
+	if (options.ids.length === 0) {
+		throw new UsageError('Missing --id')
+	}
+	return options
+}
+
+/**
+ * Loads vanilla data and the packs the same way as the previews, later packs override earlier ones.
+ */
+async function loadData(options: Options, logger: Logger) {
+	const downloader = new Downloader(envPaths('vscode-worldgen-tools').cache, logger)
+	downloader.configure({ ...DEFAULT_DOWNLOAD_POLICY, proxy: process.env.HTTPS_PROXY ?? process.env.https_proxy })
+	const loader = new DataLoader(downloader, logger)
+	const packs = await loader.openPacks(options.packs)
+	if (packs.length < options.packs.length) {
+		throw new Error('Failed to open all packs')
+	}
+	const version = await loader.getVersion(packs[packs.length - 1]?.files, options.version)
+	const data = await loader.addPacks(await loader.getVanillaData(version, options.vanilla), packs)
+	return { version, data }
+}
+
+function render(options: Options, data: Record<string, Record<string, string>>, id: string) {
+	const content = data[options.type]?.[id]
+	if (content === undefined) {
+		throw new Error(`Cannot find ${options.type} ${id}`)
+	}
+	const sampler = createSampler(options.type, JSON.parse(content), BigInt(options.seed))
+	if (options.config !== undefined) {
+		sampler.setConfig?.(options.config)
+	}
+	const slice = options.slice ?? defaultSlice(options.type)
+	sampler.setSlice?.(slice)
+
+	const { region, scale } = options
+	if (options.format === 'png') {
+		const { width, height, pixels } = samplePixels(sampler, region, scale)
+		return encodePng(pixels, width, height)
+	}
+	const { width, height, values } = sampleValues(sampler, region, scale)
+	return JSON.stringify({ type: options.type, id, seed: options.seed, slice, region, scale, width, height, values })
+}
+
+async function main() {
+	let options: Options | undefined
+	try {
+		options = parseArgs(process.argv.slice(2))
+	} catch (e) {
+		if (e instanceof UsageError) {
+			process.stderr.write(`${e.message}\n\n${USAGE}`)
+			process.exitCode = 2
+			return
+		}
+		throw e
+	}
+	if (!options) {
+		process.stdout.write(USAGE)
+		return
+	}
+
+	const { verbose } = options
+	const logger: Logger = {
+		error: (msg, ...args) => console.error(format(msg, ...args)),
+		info: (msg, ...args) => verbose && console.error(format(msg, ...args)),
+		log: (msg, ...args) => verbose && console.error(format(msg, ...args)),
+		warn: (msg, ...args) => console.error(format(msg, ...args)),
+	}
+
+	const { version, data } = await loadData(options, logger)
+	logger.log(`[CLI] Loaded data for ${version}`)
+	loadRegistries(data)
+
+	for (const id of options.ids) {
+		try {
+			const output = render(options, data, id)
+			const [namespace, resource] = id.split(':')
+			const file = path.join(options.out, namespace, `${resource}.${options.format}`)
+			await fs.mkdir(path.dirname(file), { recursive: true })
+			await fs.writeFile(file, output)
+			console.log(file)
+		} catch (e) {
+			console.error(`Failed to render ${id}: ${(e as any).message}`)
+			process.exitCode = 1
+		}
+	}
+}
+
+main().catch(e => {
+	console.error(e)
+	process.exitCode = 1
+})
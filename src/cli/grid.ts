@@ -0,0 +1,57 @@
+import { setPixel } from '../view/colormap'
+import type { Sampler } from '../view/samplers'
+import type { ValueRegion } from '../view/statistics'
+import { imageArea } from '../view/tiles'
+
+/**
+ * A region sampled with `scale` blocks per cell, row by row from the top.
+ */
+export type Grid<T> = {
+	width: number,
+	height: number,
+	values: T[][],
+}
+
+/**
+ * Samples the same positions as images exported from the preview, with the top row at the largest v.
+ */
+function gridPositions(region: ValueRegion, scale: number) {
+	const area = imageArea(region, scale)
+	const { width, height } = area
+	const position = (i: number, j: number): [number, number] => [Math.floor(area.x + i * scale), -Math.floor(area.y + j * scale)]
+	return { width, height, position }
+}
+
+function sampleGrid<T>(region: ValueRegion, scale: number, sample: (u: number, v: number) => T): Grid<T> {
+	const { width, height, position } = gridPositions(region, scale)
+	const values: T[][] = []
+	for (let j = 0; j < height; j += 1) {
+		const row: T[] = []
+		for (let i = 0; i < width; i += 1) {
+			row.push(sample(...position(i, j)))
+		}
+		values.push(row)
+	}
+	return { width, height, values }
+}
+
+/**
+ * @returns The numeric values, or the text of samplers without numbers such as biome names.
+ */
+export function sampleValues(sampler: Sampler, region: ValueRegion, scale: number) {
+	return sampleGrid<number | string>(region, scale, (u, v) => {
+		const value = sampler.sampleValue?.(u, v) ?? NaN
+		return isNaN(value) ? sampler.sampleText(u, v) : value
+	})
+}
+
+export function samplePixels(sampler: Sampler, region: ValueRegion, scale: number) {
+	const { width, height, position } = gridPositions(region, scale)
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	for (let j = 0; j < height; j += 1) {
+		for (let i = 0; i < width; i += 1) {
+			setPixel(pixels, 4 * (i + j * width), sampler.sampleColor(...position(i, j), scale))
+		}
+	}
+	return { width, height, pixels }
+}
@@ -0,0 +1,50 @@
+import zlib from 'zlib'
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+const CRC_TABLE = new Int32Array(256).map((_, n) => {
+	let c = n
+	for (let k = 0; k < 8; k += 1) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+	}
+	return c
+})
+
+function crc32(buffer: Buffer) {
+	let c = -1
+	for (const byte of buffer) {
+		c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+	}
+	return (c ^ -1) >>> 0
+}
+
+function chunk(type: string, data: Buffer) {
+	const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+	const length = Buffer.alloc(4)
+	length.writeUInt32BE(data.length)
+	const crc = Buffer.alloc(4)
+	crc.writeUInt32BE(crc32(body))
+	return Buffer.concat([length, body, crc])
+}
+
+/**
+ * Encodes RGBA pixels, row by row from the top, as an 8-bit PNG without filtering.
+ */
+export function encodePng(pixels: Uint8ClampedArray, width: number, height: number) {
+	const header = Buffer.alloc(13)
+	header.writeUInt32BE(width, 0)
+	header.writeUInt32BE(height, 4)
+	header[8] = 8 // bit depth
+	header[9] = 6 // RGBA
+	const rows = Buffer.alloc((width * 4 + 1) * height)
+	for (let j = 0; j < height; j += 1) {
+		// Each row starts with filter type 0
+		rows.set(pixels.subarray(j * width * 4, (j + 1) * width * 4), j * (width * 4 + 1) + 1)
+	}
+	return Buffer.concat([
+		SIGNATURE,
+		chunk('IHDR', header),
+		chunk('IDAT', zlib.deflateSync(rows)),
+		chunk('IEND', Buffer.alloc(0)),
+	])
+}
@@ -0,0 +1,370 @@
+import fs from 'fs/promises'
+import path from 'path'
+import rfdc from 'rfdc'
+import type { Logger } from '../shared'
+import { RESOURCE_REGEX } from '../shared'
+import type { Downloader, DownloaderDownloadOut } from './downloader'
+import { PackFiles } from './packFiles'
+import { getVersionFromPackFormat, LATEST_VERSION } from './versions'
+
+export const MCMETA = 'https://raw.githubusercontent.com/misode/mcmeta'
+
+const deepClone = rfdc()
+
+/**
+ * Folder in the download cache with a folder of vanilla data per version.
+ */
+const CACHE_FOLDER = 'mc-je'
+
+/**
+ * Data of a version doesn't change after its release, so its checksum is checked at most once a day.
+ */
+const CHECKSUM_MAX_AGE = 24 * 60 * 60 * 1000
+
+export interface PackSource {
+	name: string
+	root: string
+	folder: boolean
+	files: PackFiles
+}
+
+export interface RegistryType {
+	key: string
+	match: string
+	fetch?: boolean
+}
+
+export interface ViewType extends RegistryType {
+	name: string
+}
+
+export interface CachedVersion {
+	version: string
+	files: number
+	/**
+	 * Size on disk in bytes.
+	 */
+	size: number
+}
+
+export const VIEW_TYPES: ReadonlyArray<ViewType> = [
+	{
+		key: 'worldgen/noise', name: 'Noise',
+		match: 'data/*/worldgen/noise/**/*.json',
+		fetch: true,
+	},
+	{
+		key: 'worldgen/density_function', name: 'Density function',
+		match: 'data/*/worldgen/density_function/**/*.json',
+		fetch: true,
+	},
+	{
+		key: 'worldgen/noise_settings', name: 'Noise settings',
+		match: 'data/*/worldgen/noise_settings/**/*.json',
+		fetch: true,
+	},
+	{
+		key: 'dimension', name: 'Dimension',
+		match: 'data/*/dimension/**/*.json',
+	},
+]
+
+export const REGISTRIES: ReadonlyArray<RegistryType> = [
+	...VIEW_TYPES,
+	...[
+		'worldgen/biome',
+		'tags/worldgen/biome',
+		'worldgen/multi_noise_biome_source_parameter_list',
+		'worldgen/world_preset',
+		'worldgen/structure',
+		'worldgen/structure_set',
+		'worldgen/template_pool',
+	].map(key => ({ key, match: `data/*/${key}/**/*.json`, fetch: true })),
+]
+
+/**
+ * Loads packs and vanilla data without depending on VS Code, shared by the previews
+ * and the command line.
+ */
+export class DataLoader {
+	private readonly vanilla = new Map<string, Record<string, Record<string, string>>>()
+
+	constructor(
+		private readonly downloader: Downloader,
+		private readonly logger: Logger,
+	) {}
+
+	/**
+	 * @returns The version `setting`, or else the version matching the `pack_format`
+	 * in the `pack.mcmeta` of the given pack.
+	 */
+	public async getVersion(pack: PackFiles | undefined, setting: string | undefined) {
+		if (setting && setting !== 'auto') {
+			return setting
+		}
+		if (pack) {
+			try {
+				const mcmeta = JSON.parse(await pack.read('pack.mcmeta'))
+				const packFormat = mcmeta?.pack?.pack_format
+				if (typeof packFormat === 'number') {
+					return getVersionFromPackFormat(packFormat).id
+				}
+			} catch (e) {
+				this.logger.warn(`[DataLoader] Failed to read pack format: ${(e as any).message}`)
+			}
+		}
+		return LATEST_VERSION.id
+	}
+
+	/**
+	 * @returns The packs at the given roots in load order, skipping the ones that can't be opened.
+	 */
+	public async openPacks(roots: string[]) {
+		const packs: PackSource[] = []
+		for (const root of roots) {
+			try {
+				const files = await PackFiles.open(root)
+				const folder = (await fs.stat(root)).isDirectory()
+				packs.push({ name: path.basename(root), root, folder, files })
+			} catch (e) {
+				this.logger.error(`[DataLoader] Failed to open pack ${root}: ${(e as any).message}`)
+			}
+		}
+		return packs
+	}
+
+	/**
+	 * Adds the resources of the packs to `data`, later packs override earlier packs.
+	 */
+	public async addPacks(data: Record<string, Record<string, string>>, packs: PackSource[]) {
+		for (const pack of packs) {
+			for (const { match, key } of REGISTRIES) {
+				const files = await pack.files.list(match)
+				await Promise.all(files.map(async file => {
+					const m = file.match(RESOURCE_REGEX)
+					if (!m) return
+					data[key] = data[key] ?? {}
+					data[key][`${m[1]}:${m[3]}`] = await pack.files.read(file)
+				}))
+			}
+		}
+		return data
+	}
+
+	/**
+	 * @returns Whether {@link getVanillaData} returns without loading anything.
+	 */
+	public hasVanillaData(version: string, localPath: string | undefined) {
+		return this.vanilla.has(localPath ?? version)
+	}
+
+	/**
+	 * @param localPath Folder or zip with vanilla data that is used instead of downloading `version`.
+	 * @param onProgress Called after each downloaded registry.
+	 * @returns A copy of the vanilla data, which may be modified.
+	 */
+	public async getVanillaData(version: string, localPath: string | undefined, onProgress?: (done: number, total: number) => void) {
+		const cacheKey = localPath ?? version
+		const cached = this.vanilla.get(cacheKey)
+		if (cached !== undefined) return deepClone(cached)
+
+		if (localPath) {
+			this.logger.log(`[DataLoader] Using vanilla data from ${localPath}`)
+			const vanilla = await this.getLocalVanillaData(localPath, version)
+			this.vanilla.set(cacheKey, vanilla)
+			return deepClone(vanilla)
+		}
+
+		this.logger.log(`[DataLoader] Using vanilla data from ${version}`)
+		const { vanilla } = await this.downloadVanillaData(version, false, onProgress)
+		this.vanilla.set(cacheKey, vanilla)
+		return deepClone(vanilla)
+	}
+
+	/**
+	 * Downloads the vanilla data of `version` again, keeping the cached data of the registries that fail to download.
+	 * @throws If any registry failed to download.
+	 */
+	public async refreshVanillaData(version: string, onProgress?: (done: number, total: number) => void) {
+		this.logger.log(`[DataLoader] Refreshing vanilla data of ${version}`)
+		const { vanilla, failed } = await this.downloadVanillaData(version, true, onProgress)
+		this.vanilla.set(version, vanilla)
+		if (failed.length > 0) {
+			throw new Error(`Failed to download ${failed.join(', ')} of ${version}, kept the cached data`)
+		}
+		return deepClone(vanilla)
+	}
+
+	/**
+	 * @param refresh Whether to download even if the cache is up to date.
+	 * @returns The data and the registries that weren't downloaded, which use the cache if possible.
+	 */
+	private async downloadVanillaData(version: string, refresh: boolean, onProgress?: (done: number, total: number) => void) {
+		const vanilla: Record<string, Record<string, string>> = Object.fromEntries(REGISTRIES.map(({ key }) => [key, {}]))
+		const failed: string[] = []
+		const fetched = REGISTRIES.filter(({ fetch }) => fetch)
+		let done = 0
+		await Promise.all(fetched
+			.map(async({ key }) => {
+				const summaryKey = key.replace(/^tags\//, 'tag/')
+				const out: DownloaderDownloadOut = {}
+				const data = await this.downloader.download({
+					id: `${CACHE_FOLDER}/${version}/${key}.json.gz`,
+					uri: `${MCMETA}/${version}-summary/data/${summaryKey}/data.min.json`,
+					transformer: (buffer) => JSON.parse(buffer.toString('utf-8')) as Promise<Record<string, unknown>>,
+					cache: {
+						checksumExtension: '.cache',
+						checksumMaxAge: CHECKSUM_MAX_AGE,
+						refresh,
+						checksumJob: {
+							uri: `${MCMETA}/${version}-summary/version.txt`,
+							transformer: data => data.toString('utf-8'),
+						},
+					},
+				}, out)
+				onProgress?.(done += 1, fetched.length)
+				if (!data || out.fellBack) {
+					failed.push(key)
+				}
+				if (!data) {
+					this.logger.error(`[DataLoader] Failed to fetch data for '${key}' in ${version}`)
+					return
+				}
+				if (key === 'worldgen/multi_noise_biome_source_parameter_list') {
+					await this.expandParameterLists(version, data, refresh)
+				}
+				vanilla[key] = Object.fromEntries(Object.entries(data).map(([path, value]) => {
+					return ['minecraft:' + path, JSON.stringify(value)]
+				}))
+			})
+		)
+		return { vanilla, failed }
+	}
+
+	/**
+	 * Vanilla parameter lists only name a preset that is defined in code. Adds the
+	 * `biomes` of those presets from the biome parameters report.
+	 * @param files Local vanilla data, its bundled reports are used before downloading the reports of `version`.
+	 */
+	private async expandParameterLists(version: string, lists: Record<string, unknown>, refresh: boolean, files?: PackFiles) {
+		await Promise.all(Object.values(lists).map(async list => {
+			const preset = (list as { preset?: unknown })?.preset
+			if (typeof preset !== 'string') return
+			const [namespace, path] = preset.includes(':') ? preset.split(':') : ['minecraft', preset]
+			const report = await this.readLocalReport(files, `reports/biome_parameters/${namespace}/${path}.json`) ?? await this.downloader.download({
+				id: `${CACHE_FOLDER}/${version}/biome_parameters/${namespace}/${path}.json.gz`,
+				uri: `${MCMETA}/${version}-reports/biome_parameters/${namespace}/${path}.json`,
+				transformer: (buffer) => JSON.parse(buffer.toString('utf-8')) as { biomes?: unknown },
+				cache: {
+					checksumExtension: '.cache',
+					checksumMaxAge: CHECKSUM_MAX_AGE,
+					refresh,
+					checksumJob: {
+						uri: `${MCMETA}/${version}-summary/version.txt`,
+						transformer: data => data.toString('utf-8'),
+					},
+				},
+			})
+			if (report?.biomes) {
+				Object.assign(list as object, { biomes: report.biomes })
+			} else {
+				this.logger.warn(`[DataLoader] Missing biome parameters of preset ${preset} in ${version}, parameter lists using it have no biomes`)
+			}
+		}))
+	}
+
+	/**
+	 * @returns `undefined` if there is no such report, like in data that was extracted from a jar.
+	 */
+	private async readLocalReport(files: PackFiles | undefined, file: string) {
+		if (!files || (await files.list(file)).length === 0) return undefined
+		try {
+			return JSON.parse(await files.read(file)) as { biomes?: unknown }
+		} catch (e) {
+			this.logger.warn(`[DataLoader] Failed to read ${file}: ${(e as any).message}`)
+			return undefined
+		}
+	}
+
+	/**
+	 * @returns The versions with downloaded vanilla data, sorted by version.
+	 */
+	public async listCache(): Promise<CachedVersion[]> {
+		const root = path.join(this.downloader.cacheRoot, CACHE_FOLDER)
+		let versions: string[]
+		try {
+			versions = await fs.readdir(root)
+		} catch (e) {
+			return []
+		}
+		const measure = async (dir: string): Promise<{ files: number, size: number }> => {
+			let [files, size] = [0, 0]
+			for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+				const file = path.join(dir, entry.name)
+				if (entry.isDirectory()) {
+					const total = await measure(file)
+					files += total.files
+					size += total.size
+				} else {
+					files += 1
+					size += (await fs.stat(file)).size
+				}
+			}
+			return { files, size }
+		}
+		const cached = await Promise.all(versions.map(async version => ({ version, ...await measure(path.join(root, version)) })))
+		return cached.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }))
+	}
+
+	/**
+	 * Removes the downloaded vanilla data of `version`, or of all versions.
+	 */
+	public async clearCache(version?: string) {
+		const root = path.join(this.downloader.cacheRoot, CACHE_FOLDER)
+		await fs.rm(version === undefined ? root : path.join(root, version), { recursive: true, force: true })
+		if (version === undefined) {
+			this.vanilla.clear()
+		} else {
+			this.vanilla.delete(version)
+		}
+		this.logger.log(`[DataLoader] Cleared cache of ${version ?? 'all versions'}`)
+	}
+
+	/**
+	 * @param version Version of the biome parameters of presets, if the data doesn't include reports.
+	 */
+	private async getLocalVanillaData(source: string, version: string) {
+		const vanilla: Record<string, Record<string, string>> = {}
+		let files: PackFiles
+		try {
+			files = await PackFiles.open(source)
+		} catch (e) {
+			this.logger.error(`[DataLoader] Failed to open vanilla data ${source}: ${(e as any).message}`)
+			return vanilla
+		}
+		for (const { match, key, fetch } of REGISTRIES) {
+			vanilla[key] = {}
+			if (!fetch) continue
+			const paths = await files.list(match)
+			await Promise.all(paths.map(async file => {
+				const m = file.match(RESOURCE_REGEX)
+				if (!m) return
+				vanilla[key][`${m[1]}:${m[3]}`] = await files.read(file)
+			}))
+		}
+		const lists = vanilla['worldgen/multi_noise_biome_source_parameter_list']
+		const parsed: Record<string, unknown> = {}
+		for (const [id, content] of Object.entries(lists)) {
+			try {
+				parsed[id] = JSON.parse(content)
+			} catch (e) {
+				// Invalid lists are kept as they are
+			}
+		}
+		await this.expandParameterLists(version, parsed, false, files)
+		for (const [id, list] of Object.entries(parsed)) {
+			lists[id] = JSON.stringify(list)
+		}
+		return vanilla
+	}
+}
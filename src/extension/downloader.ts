@@ -5,10 +5,12 @@
  */
 import { http, https } from 'follow-redirects'
 import { promises as fsp } from 'fs'
-import type { IncomingMessage } from 'http'
+import type { Agent, IncomingMessage } from 'http'
+import type { Agent as HttpsAgent } from 'https'
 import path from 'path'
 import type { Logger } from '../shared'
 import { bufferToString, fileUtil, isEnoent, promisifyAsyncIterable } from './fileUtil'
+import { createProxyAgent } from './proxyAgent'
 
 type RemoteProtocol = 'http:' | 'https:'
 export type RemoteUriString = `${RemoteProtocol}${string}`
@@ -21,35 +23,106 @@ export namespace RemoteUriString {
 export interface DownloaderDownloadOut {
 	cachePath?: string,
 	checksum?: string,
+	/**
+	 * Whether the download failed and the cached file was used instead.
+	 */
+	fellBack?: boolean,
+}
+
+export interface DownloadPolicy {
+	/**
+	 * Milliseconds without a response before a request is aborted.
+	 */
+	timeout: number,
+	/**
+	 * Attempts after a failed request, waiting twice as long before each attempt.
+	 */
+	retries: number,
+	/**
+	 * Milliseconds before the first retry.
+	 */
+	retryDelay: number,
+	/**
+	 * URL of a proxy that https requests are tunneled through.
+	 */
+	proxy?: string,
+	strictSSL: boolean,
+}
+
+export const DEFAULT_DOWNLOAD_POLICY: DownloadPolicy = {
+	timeout: 30_000,
+	retries: 3,
+	retryDelay: 1000,
+	strictSSL: true,
 }
 
 export class Downloader {
+	private policy = DEFAULT_DOWNLOAD_POLICY
+	private agents: LowLevelDownloadOptions['agents']
+
 	constructor(
-		private readonly cacheRoot: string,
+		public readonly cacheRoot: string,
 		private readonly logger: Logger,
 		private readonly lld = LowLevelDownloader.create(),
 	) { }
 
+	/**
+	 * An invalid proxy is logged and ignored, sending requests directly.
+	 * @returns The error of an invalid proxy.
+	 */
+	configure(policy: DownloadPolicy): Error | undefined {
+		this.policy = policy
+		this.agents = undefined
+		if (!policy.proxy) return undefined
+		try {
+			this.agents = { https: createProxyAgent(policy.proxy, policy.strictSSL) }
+		} catch (e) {
+			this.logger.error('[Downloader] Not using the proxy', e)
+			return e as Error
+		}
+		return undefined
+	}
+
 	async download<R>(job: Job<R>, out: DownloaderDownloadOut = {}): Promise<R | undefined> {
 		const { id, cache, uri, options, transformer } = job
 		let checksum: string | undefined
 		let cachePath: string | undefined
 		let cacheChecksumPath: string | undefined
 		if (cache) {
-			const { checksumJob, checksumExtension } = cache
+			const { checksumJob, checksumExtension, checksumMaxAge } = cache
 			out.cachePath = cachePath = path.join(this.cacheRoot, id)
 			cacheChecksumPath = path.join(this.cacheRoot, id + checksumExtension)
+			if (checksumMaxAge !== undefined && !cache.refresh) {
+				try {
+					const { mtimeMs } = await fsp.stat(cacheChecksumPath)
+					if (Date.now() - mtimeMs < checksumMaxAge) {
+						const cachedBuffer = await fileUtil.readFile(fileUtil.pathToFileUri(cachePath))
+						const deserializer = cache.deserializer ?? (b => b)
+						const ans = await transformer(await deserializer(cachedBuffer))
+						this.logger.info(`[Downloader] [${id}] Skipped checking the checksum of the recently checked cache`)
+						return ans
+					}
+				} catch (e) {
+					if (!isEnoent(e)) {
+						this.logger.error(`[Downloader] [${id}] Loading recently checked cache “${cachePath}”`, e)
+					}
+				}
+			}
 			try {
 				out.checksum = checksum = await this.download({ ...checksumJob, id: id + checksumExtension })
 				try {
 					const cacheChecksum = bufferToString(await fileUtil.readFile(fileUtil.pathToFileUri(cacheChecksumPath)))
 						.slice(0, -1) // Remove ending newline
-					if (checksum === cacheChecksum) {
+					if (checksum === cacheChecksum && !cache.refresh) {
 						try {
 							const cachedBuffer = await fileUtil.readFile(fileUtil.pathToFileUri(cachePath))
 							const deserializer = cache.deserializer ?? (b => b)
 							const ans = await transformer(await deserializer(cachedBuffer))
 							this.logger.info(`[Downloader] [${id}] Skipped downloading thanks to cache ${cacheChecksum}`)
+							if (checksumMaxAge !== undefined) {
+								const now = new Date()
+								await fsp.utimes(cacheChecksumPath, now, now)
+							}
 							return ans
 						} catch (e) {
 							this.logger.error(`[Downloader] [${id}] Loading cached file “${cachePath}”`, e)
@@ -75,7 +148,7 @@ export class Downloader {
 		}
 
 		try {
-			const buffer = await this.lld.get(uri, options)
+			const buffer = await this.get(id, uri, options)
 			if (cache && cachePath && cacheChecksumPath) {
 				if (checksum) {
 					try {
@@ -101,6 +174,7 @@ export class Downloader {
 					const deserializer = cache.deserializer ?? (b => b)
 					const ans = await transformer(await deserializer(cachedBuffer))
 					this.logger.warn(`[Downloader] [${id}] Fell back to cached file “${cachePath}”`)
+					out.fellBack = true
 					return ans
 				} catch (e) {
 					this.logger.error(`[Downloader] [${id}] Fallback: loading cached file “${cachePath}”`, e)
@@ -110,6 +184,38 @@ export class Downloader {
 
 		return undefined
 	}
+
+	/**
+	 * Retries requests that failed without a response or with a server error.
+	 */
+	private async get(id: string, uri: RemoteUriString, options: LowLevelDownloadOptions = {}) {
+		const { timeout, retries, retryDelay } = this.policy
+		for (let attempt = 0; ; attempt += 1) {
+			try {
+				return await this.lld.get(uri, { timeout, agents: this.agents, ...options })
+			} catch (e) {
+				const statusCode = e instanceof DownloadError ? e.statusCode : undefined
+				if (attempt >= retries || (statusCode !== undefined && statusCode < 500)) {
+					throw e
+				}
+				const delay = retryDelay * 2 ** attempt
+				this.logger.warn(`[Downloader] [${id}] Retrying in ${delay / 1000}s after: ${(e as any).message}`)
+				await new Promise(resolve => setTimeout(resolve, delay))
+			}
+		}
+	}
+}
+
+/**
+ * A request that failed with a response, such as a missing file.
+ */
+export class DownloadError extends Error {
+	constructor(
+		message: string,
+		public readonly statusCode: number | undefined,
+	) {
+		super(message)
+	}
 }
 
 export interface Job<R> {
@@ -126,6 +232,14 @@ export interface Job<R> {
 		 */
 		checksumJob: Omit<Job<string>, 'cache' | 'id'>,
 		checksumExtension: `.${string}`,
+		/**
+		 * Milliseconds after a matching checksum during which the cache is used without fetching the checksum.
+		 */
+		checksumMaxAge?: number,
+		/**
+		 * Downloads the file even if the cache is up to date. The cache is only replaced after a successful download.
+		 */
+		refresh?: boolean,
 		serializer?: (data: Buffer) => Buffer | Promise<Buffer>,
 		deserializer?: (cache: Buffer) => Buffer | Promise<Buffer>,
 	},
@@ -138,7 +252,11 @@ interface LowLevelDownloadOptions {
 	 * Use an string array to set multiple values to the header.
 	 */
 	headers?: Record<string, string | string[]>
+	/**
+	 * Milliseconds without a response before the request is aborted.
+	 */
 	timeout?: number,
+	agents?: { http?: Agent, https?: HttpsAgent },
 }
 
 export interface LowLevelDownloader {
@@ -163,15 +281,21 @@ class LowLevelDownloaderImpl implements LowLevelDownloader {
 		return new Promise((resolve, reject) => {
 			const callback = (res: IncomingMessage) => {
 				if (res.statusCode !== 200) {
-					reject(new Error(`Status code ${res.statusCode}: ${res.statusMessage}`))
+					res.resume()
+					reject(new DownloadError(`Status code ${res.statusCode}: ${res.statusMessage}`, res.statusCode))
 				} else {
 					resolve(promisifyAsyncIterable(res, chunks => Buffer.concat(chunks)))
 				}
 			}
-			if (protocol === 'http:') {
-				http.get(uri, options, callback)
-			} else {
-				https.get(uri, options, callback)
+			const request = protocol === 'http:'
+				? http.get(uri, options, callback)
+				: https.get(uri, options, callback)
+			request.on('error', reject)
+			const { timeout } = options
+			if (timeout) {
+				request.setTimeout(timeout, () => {
+					request.destroy(new Error(`Timed out after ${timeout / 1000}s`))
+				})
 			}
 		})
 	}
@@ -191,7 +315,7 @@ class LowLevelDownloaderMock implements LowLevelDownloader {
 
 	async get(uri: RemoteUriString): Promise<Buffer> {
 		if (!this.options.fixtures[uri]) {
-			throw new Error(`404 not found: ${uri}`)
+			throw new DownloadError(`404 not found: ${uri}`, 404)
 		}
 		const fixture = this.options.fixtures[uri]
 		if (Buffer.isBuffer(fixture)) {
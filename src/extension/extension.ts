@@ -1,6 +1,11 @@
+import envPaths from 'env-paths'
 import { format } from 'util'
 import * as vscode from 'vscode'
 import type { Logger } from '../shared'
+import { DataLoader } from './dataLoader'
+import { Downloader } from './downloader'
+import { readDownloadPolicy, registerCacheCommands } from './vanillaCache'
+import { VERSIONS } from './versions'
 import { ViewProvider } from './viewProvider'
 
 export function activate(context: vscode.ExtensionContext) {
@@ -12,7 +17,24 @@ export function activate(context: vscode.ExtensionContext) {
 		warn: (msg, ...args) => output.appendLine(format(msg, ...args)),
 	}
 
-	const viewProvider = new ViewProvider(context, logger)
+	const cacheRoot = envPaths('vscode-worldgen-tools').cache
+	const downloader = new Downloader(cacheRoot, logger)
+	const configureDownloader = () => {
+		const error = downloader.configure(readDownloadPolicy())
+		if (error) {
+			vscode.window.showWarningMessage(`${error.message}, downloading without a proxy`)
+		}
+	}
+	configureDownloader()
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+		if (['worldgen-tools.downloadTimeout', 'worldgen-tools.downloadRetries', 'http.proxy', 'http.proxyStrictSSL'].some(s => e.affectsConfiguration(s))) {
+			configureDownloader()
+		}
+	}))
+	const loader = new DataLoader(downloader, logger)
+	registerCacheCommands(context, loader, cacheRoot)
+
+	const viewProvider = new ViewProvider(context, logger, loader)
 
 	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.openVisualizer', () => {
 		const document = vscode.window.activeTextEditor?.document
@@ -23,5 +45,27 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}))
 
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.biomeStatistics', () => {
+		const document = vscode.window.activeTextEditor?.document
+		if (document) {
+			viewProvider.showBiomeStatistics(document)
+		} else {
+			vscode.window.showWarningMessage('No editor active')
+		}
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.selectVersion', async () => {
+		const items: Array<vscode.QuickPickItem & { value: string }> = [
+			{ label: 'Automatic', description: 'Detect from pack.mcmeta', value: 'auto' },
+			...[...VERSIONS].reverse().map(v => ({ label: v.id, description: `pack_format ${v.packFormat}`, value: v.id })),
+		]
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Minecraft version for vanilla data' })
+		if (!picked) return
+		const target = vscode.workspace.workspaceFolders
+			? vscode.ConfigurationTarget.Workspace
+			: vscode.ConfigurationTarget.Global
+		await vscode.workspace.getConfiguration('worldgen-tools').update('version', picked.value, target)
+	}))
+
 	context.subscriptions.push(vscode.window.registerWebviewPanelSerializer('worldgen-tools.preview', viewProvider))
 }
@@ -0,0 +1,83 @@
+/**
+ * Finds a value in JSON text without parsing the rest of the document.
+ * @param path Keys of objects and indices of arrays, from the root to the value.
+ * @returns The offsets of the start and end of the value, or `undefined` if the text doesn't contain it.
+ */
+export function findJsonPath(text: string, path: Array<string | number>): [number, number] | undefined {
+	let pos = 0
+
+	const skipWhitespace = () => {
+		while (pos < text.length && /\s/.test(text[pos])) {
+			pos += 1
+		}
+	}
+
+	const readString = () => {
+		const start = pos
+		pos += 1
+		while (pos < text.length && text[pos] !== '"') {
+			pos += text[pos] === '\\' ? 2 : 1
+		}
+		pos += 1
+		return JSON.parse(text.slice(start, pos)) as string
+	}
+
+	// Moves past the value at `pos`, which must not have leading whitespace
+	const skipValue = (): void => {
+		const c = text[pos]
+		if (c === '"') {
+			readString()
+		} else if (c === '{' || c === '[') {
+			forEachEntry(() => skipValue())
+		} else {
+			while (pos < text.length && !/[\s,\]}]/.test(text[pos])) {
+				pos += 1
+			}
+		}
+	}
+
+	// Calls `visit` with the key or index of each entry, with `pos` at the start of its value
+	// @returns Whether `visit` stopped the iteration by returning `true`
+	const forEachEntry = (visit: (key: string | number) => boolean | void) => {
+		const object = text[pos] === '{'
+		pos += 1
+		for (let index = 0; pos < text.length; index += 1) {
+			skipWhitespace()
+			if (text[pos] === '}' || text[pos] === ']') {
+				pos += 1
+				return false
+			}
+			let key: string | number = index
+			if (object) {
+				if (text[pos] !== '"') return false
+				key = readString()
+				skipWhitespace()
+				pos += 1 // The colon
+				skipWhitespace()
+			}
+			if (visit(key) === true) return true
+			skipWhitespace()
+			if (text[pos] === ',') {
+				pos += 1
+			}
+		}
+		return false
+	}
+
+	try {
+		skipWhitespace()
+		for (const segment of path) {
+			if (text[pos] !== '{' && text[pos] !== '[') return undefined
+			const found = forEachEntry(key => {
+				if (key === segment) return true
+				skipValue()
+			})
+			if (!found) return undefined
+		}
+		const start = pos
+		skipValue()
+		return [start, pos]
+	} catch (e) {
+		return undefined
+	}
+}
@@ -0,0 +1,90 @@
+import glob from 'fast-glob'
+import fs from 'fs/promises'
+import JSZip from 'jszip'
+import minimatch from 'minimatch'
+import path from 'path'
+
+/**
+ * Read-only access to the files of a pack, either from a folder or from an archive.
+ */
+export interface PackFiles {
+	/**
+	 * @returns The paths relative to the root of the pack matching the glob `pattern`, separated by slashes (`/`).
+	 */
+	list(pattern: string): Promise<string[]>
+	/**
+	 * @throws If the file doesn't exist.
+	 */
+	read(file: string): Promise<string>
+}
+
+export namespace PackFiles {
+	/**
+	 * @param fsPath A pack folder, a `data` folder, or a `.zip` or `.jar` archive.
+	 * @throws If the path doesn't exist or the archive cannot be read.
+	 */
+	export async function open(fsPath: string): Promise<PackFiles> {
+		const stat = await fs.stat(fsPath)
+		if (stat.isDirectory()) {
+			const root = path.basename(fsPath) === 'data' ? path.dirname(fsPath) : fsPath
+			return new FolderPackFiles(root)
+		}
+		const zip = await JSZip.loadAsync(await fs.readFile(fsPath))
+		const { archive, prefix } = await findDataRoot(zip)
+		return new ZipPackFiles(archive, prefix)
+	}
+}
+
+class FolderPackFiles implements PackFiles {
+	constructor(private readonly root: string) {}
+
+	list(pattern: string) {
+		return glob(pattern, { cwd: this.root })
+	}
+
+	read(file: string) {
+		return fs.readFile(path.resolve(this.root, file), 'utf-8')
+	}
+}
+
+class ZipPackFiles implements PackFiles {
+	constructor(
+		private readonly zip: JSZip,
+		private readonly prefix: string,
+	) {}
+
+	async list(pattern: string) {
+		return Object.values(this.zip.files)
+			.filter(entry => !entry.dir && entry.name.startsWith(this.prefix))
+			.map(entry => entry.name.slice(this.prefix.length))
+			.filter(name => minimatch(name, pattern, { dot: true }))
+	}
+
+	async read(file: string) {
+		const entry = this.zip.file(this.prefix + file)
+		if (!entry) {
+			throw new Error(`File ${file} not found in archive`)
+		}
+		return entry.async('string')
+	}
+}
+
+/**
+ * Finds the archive and path prefix of the `data` folder. Handles server jars,
+ * which bundle the actual server jar, and zips that wrap the pack in a single folder.
+ */
+async function findDataRoot(zip: JSZip): Promise<{ archive: JSZip, prefix: string }> {
+	const names = Object.keys(zip.files)
+	if (names.some(name => name.startsWith('data/'))) {
+		return { archive: zip, prefix: '' }
+	}
+	const bundled = names.find(name => /^META-INF\/versions\/[^/]+\/[^/]+\.jar$/.test(name))
+	if (bundled) {
+		return findDataRoot(await JSZip.loadAsync(await zip.file(bundled)!.async('nodebuffer')))
+	}
+	const nested = names.find(name => /^[^/]+\/data\//.test(name))
+	if (nested) {
+		return { archive: zip, prefix: nested.slice(0, nested.indexOf('/') + 1) }
+	}
+	return { archive: zip, prefix: '' }
+}
@@ -0,0 +1,67 @@
+import http from 'http'
+import https from 'https'
+import type { Duplex } from 'stream'
+import tls from 'tls'
+
+/**
+ * @returns An agent for https requests that opens a tunnel through an http or https proxy
+ * with a `CONNECT` request. Credentials in the proxy URL are sent as basic authentication.
+ * @throws If `proxy` isn't an http or https URL with a host.
+ */
+export function createProxyAgent(proxy: string, strictSSL: boolean): https.Agent {
+	return new TunnelingAgent(parseProxyUrl(proxy), { rejectUnauthorized: strictSSL, keepAlive: true })
+}
+
+function parseProxyUrl(proxy: string) {
+	let url: URL | undefined
+	try {
+		url = new URL(proxy)
+	} catch (e) {
+		// Reported below
+	}
+	// Without a scheme, a value like `proxy:3128` parses with `proxy:` as its protocol and no host
+	if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname) {
+		throw new Error(`Invalid proxy URL “${proxy}”, expected a URL like http://host:port`)
+	}
+	return url
+}
+
+class TunnelingAgent extends https.Agent {
+	constructor(
+		private readonly proxy: URL,
+		options: https.AgentOptions,
+	) {
+		super(options)
+	}
+
+	/**
+	 * Called by the agent when it needs a new socket, which may be passed to `callback` asynchronously.
+	 */
+	createConnection(options: tls.ConnectionOptions, callback: (error: Error | null, socket?: Duplex) => void) {
+		const target = `${options.host}:${options.port ?? 443}`
+		const headers: http.OutgoingHttpHeaders = { host: target }
+		if (this.proxy.username) {
+			const credentials = `${decodeURIComponent(this.proxy.username)}:${decodeURIComponent(this.proxy.password)}`
+			headers['proxy-authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`
+		}
+		const request = (this.proxy.protocol === 'https:' ? https : http).request({
+			host: this.proxy.hostname,
+			port: this.proxy.port || (this.proxy.protocol === 'https:' ? 443 : 80),
+			method: 'CONNECT',
+			path: target,
+			headers,
+			rejectUnauthorized: options.rejectUnauthorized,
+		})
+		request.once('connect', (res, socket) => {
+			if (res.statusCode !== 200) {
+				socket.destroy()
+				callback(new Error(`Proxy responded with status code ${res.statusCode}`))
+				return
+			}
+			callback(null, tls.connect({ ...options, socket, servername: options.servername ?? options.host }))
+		})
+		request.once('error', error => callback(error))
+		request.end()
+		return undefined
+	}
+}
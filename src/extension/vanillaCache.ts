@@ -0,0 +1,125 @@
+import * as vscode from 'vscode'
+import type { CachedVersion, DataLoader } from './dataLoader'
+import type { DownloadPolicy } from './downloader'
+import { DEFAULT_DOWNLOAD_POLICY } from './downloader'
+import { VERSIONS } from './versions'
+
+/**
+ * @returns The download settings, using the proxy of VS Code.
+ */
+export function readDownloadPolicy(): DownloadPolicy {
+	const config = vscode.workspace.getConfiguration('worldgen-tools')
+	const http = vscode.workspace.getConfiguration('http')
+	return {
+		...DEFAULT_DOWNLOAD_POLICY,
+		timeout: Math.max(1, config.get<number>('downloadTimeout') ?? 30) * 1000,
+		retries: Math.max(0, config.get<number>('downloadRetries') ?? 3),
+		proxy: http.get<string>('proxy') || process.env.HTTPS_PROXY || process.env.https_proxy || undefined,
+		strictSSL: http.get<boolean>('proxyStrictSSL') ?? true,
+	}
+}
+
+/**
+ * Loads vanilla data with a progress indicator in the status bar if it isn't loaded yet.
+ */
+export async function loadVanillaData(loader: DataLoader, version: string, localPath: string | undefined) {
+	if (loader.hasVanillaData(version, localPath)) {
+		return loader.getVanillaData(version, localPath)
+	}
+	return vscode.window.withProgress({
+		location: vscode.ProgressLocation.Window,
+		title: `Loading vanilla data ${localPath ? 'from disk' : version}`,
+	}, progress => loader.getVanillaData(version, localPath, (done, total) => {
+		progress.report({ message: `${done}/${total}` })
+	}))
+}
+
+function formatSize(bytes: number) {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function registerCacheCommands(context: vscode.ExtensionContext, loader: DataLoader, cacheRoot: string) {
+	const describe = (cached: CachedVersion) => `${formatSize(cached.size)}, ${cached.files} files`
+
+	const pickCachedVersion = async (placeHolder: string, all: boolean) => {
+		const cached = await loader.listCache()
+		if (cached.length === 0) {
+			vscode.window.showInformationMessage('No vanilla data is cached')
+			return undefined
+		}
+		const items: Array<vscode.QuickPickItem & { version?: string }> = [
+			...all ? [{ label: 'All versions', description: formatSize(cached.reduce((a, b) => a + b.size, 0)) }] : [],
+			...cached.map(c => ({ label: c.version, description: describe(c), version: c.version })),
+		]
+		return vscode.window.showQuickPick(items, { placeHolder })
+	}
+
+	// The cache is kept until the new data is downloaded, it is the only copy while offline
+	const refresh = async (version: string) => {
+		try {
+			const data = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Window,
+				title: `Downloading vanilla data ${version}`,
+			}, progress => loader.refreshVanillaData(version, (done, total) => {
+				progress.report({ message: `${done}/${total}` })
+			}))
+			const registries = Object.values(data).filter(entries => Object.keys(entries).length > 0).length
+			vscode.window.showInformationMessage(`Downloaded vanilla data ${version} with ${registries} registries`)
+		} catch (e) {
+			vscode.window.showErrorMessage((e as Error).message)
+		}
+	}
+
+	const clear = async (version: string | undefined) => {
+		await loader.clearCache(version)
+		vscode.window.showInformationMessage(`Cleared vanilla data of ${version ?? 'all versions'}`)
+	}
+
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.showCache', async () => {
+		const cached = await loader.listCache()
+		const total = cached.reduce((a, b) => a + b.size, 0)
+		const items: Array<vscode.QuickPickItem & { version?: string }> = [
+			{ label: '$(folder-opened) Open cache folder', description: cacheRoot },
+			...cached.map(c => ({ label: c.version, description: describe(c), version: c.version })),
+		]
+		const picked = await vscode.window.showQuickPick(items, {
+			placeHolder: `Vanilla data cache: ${formatSize(total)} in ${cached.length} versions. Pick a version to refresh or clear it`,
+		})
+		if (!picked) return
+		if (picked.version === undefined) {
+			await vscode.env.openExternal(vscode.Uri.file(cacheRoot))
+			return
+		}
+		const action = await vscode.window.showQuickPick(['Refresh', 'Clear'], { placeHolder: `Vanilla data ${picked.version}` })
+		if (action === 'Refresh') {
+			await refresh(picked.version)
+		} else if (action === 'Clear') {
+			await clear(picked.version)
+		}
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.clearCache', async () => {
+		const picked = await pickCachedVersion('Vanilla data to remove from the cache', true)
+		if (picked) {
+			await clear(picked.version)
+		}
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.refreshCache', async () => {
+		const picked = await pickCachedVersion('Vanilla data to download again', false)
+		if (picked?.version) {
+			await refresh(picked.version)
+		}
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand('worldgen-tools.prefetchVersion', async () => {
+		const items = [...VERSIONS].reverse().map(v => ({ label: v.id, description: `pack_format ${v.packFormat}` }))
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Minecraft version to download vanilla data for' })
+		if (!picked) return
+		await loadVanillaData(loader, picked.label, undefined)
+		const cached = (await loader.listCache()).find(c => c.version === picked.label)
+		vscode.window.showInformationMessage(`Downloaded vanilla data ${picked.label}${cached ? ` (${describe(cached)})` : ''}`)
+	}))
+}
@@ -0,0 +1,39 @@
+export interface VersionInfo {
+	id: string
+	packFormat: number
+}
+
+/**
+ * Versions that have vanilla data summaries on mcmeta, from oldest to newest.
+ */
+export const VERSIONS: ReadonlyArray<VersionInfo> = [
+	{ id: '1.18.2', packFormat: 9 },
+	{ id: '1.19.2', packFormat: 10 },
+	{ id: '1.19.4', packFormat: 12 },
+	{ id: '1.20.1', packFormat: 15 },
+	{ id: '1.20.2', packFormat: 18 },
+	{ id: '1.20.4', packFormat: 26 },
+	{ id: '1.20.6', packFormat: 41 },
+	{ id: '1.21.1', packFormat: 48 },
+	{ id: '1.21.3', packFormat: 57 },
+	{ id: '1.21.4', packFormat: 61 },
+	{ id: '1.21.5', packFormat: 71 },
+	{ id: '1.21.6', packFormat: 80 },
+	{ id: '1.21.8', packFormat: 81 },
+]
+
+export const LATEST_VERSION = VERSIONS[VERSIONS.length - 1]
+
+/**
+ * @returns The newest version whose pack format is not newer than `packFormat`,
+ * or the oldest known version if `packFormat` predates all of them.
+ */
+export function getVersionFromPackFormat(packFormat: number): VersionInfo {
+	let result = VERSIONS[0]
+	for (const version of VERSIONS) {
+		if (version.packFormat <= packFormat) {
+			result = version
+		}
+	}
+	return result
+}
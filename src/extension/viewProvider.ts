@@ -1,59 +1,43 @@
-import envPaths from 'env-paths'
-import glob from 'fast-glob'
+import { execFile } from 'child_process'
 import findUp from 'find-up'
 import fs from 'fs/promises'
 import minimatch from 'minimatch'
 import path from 'path'
-import rfdc from 'rfdc'
+import { promisify } from 'util'
 import * as vscode from 'vscode'
-import type { Logger, ViewState } from '../shared'
+import type { Baseline, HostMessage, Logger, ViewError, ViewMessage, ViewState } from '../shared'
 import { RESOURCE_REGEX } from '../shared'
-import { Downloader } from './downloader'
+import type { PackSource } from './dataLoader'
+import type { DataLoader } from './dataLoader'
+import { REGISTRIES, VIEW_TYPES } from './dataLoader'
+import { findJsonPath } from './jsonPath'
+import type { PackFiles } from './packFiles'
 import { getNonce } from './util'
+import { loadVanillaData } from './vanillaCache'
 
-const deepClone = rfdc()
+const execFileAsync = promisify(execFile)
 
-const MCMETA = 'https://raw.githubusercontent.com/misode/mcmeta'
-const VERSION = '1.19.2'
-
-interface ViewType {
-	key: string
-	name: string
-	match: string
-	fetch?: boolean
-}
+type BaselineContent = Extract<ViewMessage, { type: 'update' }>['baseline']
 
 export class ViewProvider implements vscode.WebviewPanelSerializer {
-	private static readonly TYPES: ReadonlyArray<ViewType> = [
-		{
-			key: 'worldgen/noise', name: 'Noise',
-			match: 'data/*/worldgen/noise/**/*.json',
-			fetch: true,
-		},
-		{
-			key: 'worldgen/density_function', name: 'Density function',
-			match: 'data/*/worldgen/density_function/**/*.json',
-			fetch: true,
-		},
-		{
-			key: 'worldgen/noise_settings', name: 'Noise settings',
-			match: 'data/*/worldgen/noise_settings/**/*.json',
-			fetch: true,
-		},
-		{
-			key: 'dimension', name: 'Dimension',
-			match: 'data/*/dimension/**/*.json',
-		},
-	]
-	private readonly downloader: Downloader
-	private vanilla: undefined | Record<string, Record<string, string>>
+	private readonly diagnostics: vscode.DiagnosticCollection
+	private readonly seedChanged = new vscode.EventEmitter<{ seed: string, source: vscode.WebviewPanel }>()
+	/**
+	 * Last seed of any preview, only tracked while `worldgen-tools.linkSeed` is enabled.
+	 */
+	private linkedSeed: string | undefined
+	/**
+	 * Open previews, messages are queued until the view is ready.
+	 */
+	private readonly previews = new Map<vscode.WebviewPanel, { fileUri: string, postMessage: (message: ViewMessage) => void }>()
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
 		private readonly logger: Logger,
+		private readonly loader: DataLoader,
 	) {
-		const cacheRoot = envPaths('vscode-worldgen-tools').cache
-		this.downloader = new Downloader(cacheRoot, logger)
+		this.diagnostics = vscode.languages.createDiagnosticCollection('worldgen-tools')
+		context.subscriptions.push(this.diagnostics, this.seedChanged)
 	}
 
 	public async open(document: vscode.TextDocument) {
@@ -69,6 +53,32 @@ export class ViewProvider implements vscode.WebviewPanelSerializer {
 		})
 	}
 
+	/**
+	 * Opens a preview of the dimension, if there isn't one yet, and computes biome statistics in it.
+	 */
+	public async showBiomeStatistics(document: vscode.TextDocument) {
+		const filePath = document.uri.fsPath.replace(/\\/g, '/')
+		const dimension = VIEW_TYPES.find(t => t.key === 'dimension')!
+		if (!minimatch(filePath, `**/${dimension.match}`, { dot: true })) {
+			vscode.window.showWarningMessage('Biome statistics are only available for dimension files')
+			return
+		}
+		const input = await vscode.window.showInputBox({
+			prompt: 'Size of the area around the center of the view in blocks',
+			value: '20000',
+			validateInput: value => /^\d+$/.test(value.trim()) && parseInt(value) >= 4 ? undefined : 'Enter a number of blocks, at least 4',
+		})
+		if (input === undefined) return
+		const findPreview = () => [...this.previews.entries()].find(([, p]) => p.fileUri === document.uri.toString())
+		if (!findPreview()) {
+			await this.open(document)
+		}
+		const [panel, preview] = findPreview() ?? []
+		if (!panel || !preview) return
+		panel.reveal(undefined, true)
+		preview.postMessage({ type: 'statistics', size: parseInt(input) })
+	}
+
 	public async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: Partial<ViewState> | undefined) {
 		this.logger.log(`[ViewProvider] Deserializing ${JSON.stringify(state)}`)
 		await this.initPanel(panel, state ?? {})
@@ -82,11 +92,11 @@ export class ViewProvider implements vscode.WebviewPanelSerializer {
 			const fileUri = vscode.Uri.parse(state.fileUri, true)
 
 			const filePath = fileUri.fsPath.replace(/\\/g, '/')
-			const type = ViewProvider.TYPES.find(({ match }) => {
+			const type = VIEW_TYPES.find(({ match }) => {
 				return minimatch(filePath, `**/${match}`, { dot: true })
 			})
 			if (!type) {
-				throw new Error(`No matching fileType for file ${filePath} | Tried: ${ViewProvider.TYPES.map(t => t.match).join(', ')}`)
+				throw new Error(`No matching fileType for file ${filePath} | Tried: ${VIEW_TYPES.map(t => t.match).join(', ')}`)
 			}
 
 			panel.title = `${type.name} preview`
@@ -94,31 +104,141 @@ export class ViewProvider implements vscode.WebviewPanelSerializer {
 				enableScripts: true,
 			}
 
-			const data = await this.getVanillaData()
-
-			const pack = await findUp('pack.mcmeta', { cwd: fileUri.fsPath })
+			const filePack = await findUp('pack.mcmeta', { cwd: fileUri.fsPath })
+			let packs: PackSource[] = []
+			let data: Record<string, Record<string, string>> = {}
+			let origins: Record<string, Record<string, number>> = {}
 			let fileResource: string | undefined
-			const dependencies = new Map<string, {key: string, identifier: string}>()
-			if (pack) {
-				for (const { match, key } of ViewProvider.TYPES) {
-					const files = await glob(match, { cwd: path.dirname(pack) })
-					await Promise.all(files.map(async file => {
-						const uri = vscode.Uri.file(path.resolve(path.dirname(pack), file))
-						const m = file.match(RESOURCE_REGEX)
-						if (!m) return
-						const identifier = `${m[1]}:${m[3]}`
-						if (uri.toString() === fileUri.toString()) {
-							fileResource = identifier
+			const dependencies = new Map<string, {key: string, identifier: string, pack: number}>()
+			let watchers: vscode.Disposable[] = []
+			let diagnosticUris: vscode.Uri[] = []
+			let seedInitialized = state.seed !== undefined
+			let version = ''
+			let baseline: Baseline | undefined = state.compare?.baseline
+			let baselineContent: BaselineContent
+			let viewReady = false
+			const pendingMessages: ViewMessage[] = []
+
+			const setResource = (key: string, identifier: string, content: string, pack: number) => {
+				if ((origins[key]?.[identifier] ?? -1) > pack) return
+				if (data[key] === undefined) {
+					data[key] = {}
+				}
+				data[key][identifier] = content
+				if (origins[key] === undefined) {
+					origins[key] = {}
+				}
+				origins[key][identifier] = pack
+			}
+
+			const addFile = (file: string, key: string, content: string, pack: number) => {
+				const m = file.match(RESOURCE_REGEX)
+				if (!m) return
+				const identifier = `${m[1]}:${m[3]}`
+				setResource(key, identifier, content, pack)
+				if (packs[pack].folder) {
+					const uri = vscode.Uri.file(path.resolve(packs[pack].root, file)).toString()
+					if (uri === fileUri.toString()) {
+						fileResource = identifier
+					}
+					dependencies.set(uri, { key, identifier, pack })
+				}
+			}
+
+			const loadFile = async (uri: vscode.Uri, key: string, pack: number) => {
+				const file = path.relative(packs[pack].root, uri.fsPath).replace(/\\/g, '/')
+				const content = await fs.readFile(uri.fsPath, 'utf-8')
+				addFile(file, key, content, pack)
+			}
+
+			const loadData = async () => {
+				packs = await this.getPacks(filePack)
+				const fileRoot = filePack ? path.dirname(filePack) : undefined
+				const versionPack = packs.find(p => p.root === fileRoot) ?? packs[packs.length - 1]
+				version = await this.getVersion(versionPack?.files)
+				data = await this.getVanillaData(version)
+				origins = {}
+				dependencies.clear()
+				for (const [i, pack] of packs.entries()) {
+					for (const { match, key } of REGISTRIES) {
+						const files = await pack.files.list(match)
+						await Promise.all(files.map(async file => {
+							addFile(file, key, await pack.files.read(file), i)
+						}))
+					}
+				}
+				watchers.forEach(w => w.dispose())
+				watchers = watchPacks()
+			}
+
+			const loadBaseline = async () => {
+				try {
+					baselineContent = baseline && fileResource
+						? await this.getBaseline(baseline, fileUri, type.key, fileResource, version)
+						: undefined
+				} catch (e) {
+					vscode.window.showWarningMessage(`Cannot compare: ${(e as any).message}`)
+					baselineContent = undefined
+				}
+				baseline = baselineContent?.source
+			}
+
+			const reload = async () => {
+				try {
+					await loadData()
+					await loadBaseline()
+					updateView()
+				} catch (e) {
+					this.logger.error(`[ViewProvider] Failed to reload ${fileUri.toString()}: ${(e as any).message}`)
+				}
+			}
+
+			const watchPacks = () => packs.flatMap((pack, i) => {
+				if (!pack.folder) {
+					const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(path.dirname(pack.root), path.basename(pack.root)))
+					watcher.onDidCreate(reload)
+					watcher.onDidChange(reload)
+					watcher.onDidDelete(reload)
+					return [watcher]
+				}
+				return REGISTRIES.map(({ match, key }) => {
+					const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(pack.root, match))
+					const onCreateOrChange = async (uri: vscode.Uri) => {
+						const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString())
+						if (document?.isDirty) return
+						try {
+							await loadFile(uri, key, i)
+							updateView()
+						} catch (e) {
+							this.logger.error(`[ViewProvider] Failed to load ${uri.toString()}: ${(e as any).message}`)
 						}
-						const content = await fs.readFile(uri.fsPath, 'utf-8')
-						if (data[key] === undefined) {
-							data[key] = {}
+					}
+					watcher.onDidCreate(onCreateOrChange)
+					watcher.onDidChange(onCreateOrChange)
+					watcher.onDidDelete(async uri => {
+						const dependency = dependencies.get(uri.toString())
+						if (!dependency) return
+						dependencies.delete(uri.toString())
+						if (origins[dependency.key]?.[dependency.identifier] === dependency.pack) {
+							// The deleted file was in use, another pack or vanilla may provide it instead
+							await reload()
 						}
-						data[key][identifier] = content
-						dependencies.set(uri.toString(), { key, identifier })
-					}))
+					})
+					return watcher
+				})
+			})
+
+			await loadData()
+			await loadBaseline()
+
+			const postMessage = (message: ViewMessage) => {
+				if (viewReady) {
+					panel.webview.postMessage(message)
+				} else {
+					pendingMessages.push(message)
 				}
 			}
+			this.previews.set(panel, { fileUri: fileUri.toString(), postMessage })
 
 			function updateView() {
 				panel.webview.postMessage({
@@ -127,25 +247,176 @@ export class ViewProvider implements vscode.WebviewPanelSerializer {
 					fileUri: fileUri.toString(),
 					fileResource,
 					data,
+					packs: packs.map(p => p.name),
+					origins,
+					baseline: baselineContent,
 				})
 			}
 
+			const publishErrors = async (errors: ViewError[]) => {
+				diagnosticUris.forEach(uri => this.diagnostics.delete(uri))
+				const byUri = new Map<string, { uri: vscode.Uri, diagnostics: vscode.Diagnostic[] }>()
+				for (const error of errors) {
+					// Errors in vanilla or archived resources are reported on the previewed file
+					const entry = error.resource && [...dependencies.entries()].find(([, d]) =>
+						d.key === error.resource!.key && d.identifier === error.resource!.identifier
+						&& origins[d.key]?.[d.identifier] === d.pack)
+					const uri = entry ? vscode.Uri.parse(entry[0], true) : fileUri
+					const message = !entry && error.resource && error.resource.identifier !== fileResource
+						? `${error.resource.identifier}: ${error.message}`
+						: error.message
+					const range = await this.getErrorRange(entry || !error.resource ? uri : undefined, error)
+					const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error)
+					diagnostic.source = 'worldgen-tools'
+					const diagnostics = byUri.get(uri.toString())?.diagnostics
+					if (diagnostics) {
+						diagnostics.push(diagnostic)
+					} else {
+						byUri.set(uri.toString(), { uri, diagnostics: [diagnostic] })
+					}
+				}
+				diagnosticUris = [...byUri.values()].map(({ uri }) => uri)
+				byUri.forEach(({ uri, diagnostics }) => this.diagnostics.set(uri, diagnostics))
+			}
+
+			// Resources that aren't files in a pack folder are opened as an untitled copy, which can't be previewed
+			const openResource = async (key: string, identifier: string, preview: boolean, jsonPath?: Array<string | number>) => {
+				const entry = [...dependencies.entries()].find(([, d]) =>
+					d.key === key && d.identifier === identifier && origins[key]?.[identifier] === d.pack)
+				if (!entry) {
+					const content = data[key]?.[identifier]
+					if (content === undefined) {
+						throw new Error(`Cannot find ${key} ${identifier}`)
+					}
+					if (preview) {
+						vscode.window.showInformationMessage(`Only files in pack folders can be previewed, ${identifier} is not`)
+						return
+					}
+					const document = await vscode.workspace.openTextDocument({ language: 'json', content: JSON.stringify(JSON.parse(content), null, 2) })
+					await showDocument(document, jsonPath)
+					return
+				}
+				const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry[0], true))
+				if (preview) {
+					await this.open(document)
+				} else {
+					await showDocument(document, jsonPath)
+				}
+			}
+
+			// The value at `jsonPath` is selected, if the document contains it
+			const showDocument = async (document: vscode.TextDocument, jsonPath?: Array<string | number>) => {
+				const range = jsonPath && findJsonPath(document.getText(), jsonPath)
+				const selection = range && new vscode.Range(document.positionAt(range[0]), document.positionAt(range[1]))
+				await vscode.window.showTextDocument(document, { viewColumn: editorColumn(), selection })
+			}
+
+			const revealPath = async (jsonPath: Array<string | number>) => {
+				const document = await vscode.workspace.openTextDocument(fileUri)
+				await showDocument(document, jsonPath)
+			}
+
+			// Opened files go next to the previewed file instead of replacing the preview
+			const editorColumn = () => {
+				const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === fileUri.toString())
+				return editor?.viewColumn ?? vscode.ViewColumn.One
+			}
+
 			const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(e => {
 				const uri = e.document.uri.toString()
 				const dependency = dependencies.get(uri)
-				if (dependency) {
+				if (dependency && origins[dependency.key]?.[dependency.identifier] === dependency.pack) {
 					data[dependency.key][dependency.identifier] = e.document.getText()
 					updateView()
 				}
 			})
 		
+			const changeConfigurationSubscription = vscode.workspace.onDidChangeConfiguration(async e => {
+				if (['version', 'vanillaDataPath', 'packs'].some(key => e.affectsConfiguration(`worldgen-tools.${key}`))) {
+					await reload()
+				}
+			})
+		
+			const seedSubscription = this.seedChanged.event(({ seed, source }) => {
+				if (source !== panel) {
+					panel.webview.postMessage({ type: 'seed', seed })
+				}
+			})
+
+			const initSeed = (viewSeed: string) => {
+				const config = vscode.workspace.getConfiguration('worldgen-tools')
+				const linked = config.get<boolean>('linkSeed', false)
+				const defaultSeed = config.get<string>('defaultSeed', '')
+				let seed: string | undefined
+				if (linked && this.linkedSeed !== undefined) {
+					seed = this.linkedSeed
+				} else if (!seedInitialized && defaultSeed !== '') {
+					seed = defaultSeed
+				}
+				if (seed !== undefined) {
+					panel.webview.postMessage({ type: 'seed', seed })
+				}
+				if (linked) {
+					this.linkedSeed = seed ?? viewSeed
+				}
+				seedInitialized = true
+			}
+
 			panel.onDidDispose(() => {
 				changeDocumentSubscription.dispose()
+				changeConfigurationSubscription.dispose()
+				seedSubscription.dispose()
+				watchers.forEach(w => w.dispose())
+				diagnosticUris.forEach(uri => this.diagnostics.delete(uri))
+				this.previews.delete(panel)
 			})
 		
-			panel.webview.onDidReceiveMessage(e => {
+			panel.webview.onDidReceiveMessage((e: HostMessage) => {
 				switch (e.type) {
-					case 'ready': updateView()
+					case 'ready':
+						initSeed(e.seed)
+						updateView()
+						viewReady = true
+						pendingMessages.splice(0).forEach(message => panel.webview.postMessage(message))
+						break
+					case 'compare':
+						baseline = e.baseline
+						loadBaseline().then(updateView)
+						break
+					case 'seed':
+						if (vscode.workspace.getConfiguration('worldgen-tools').get<boolean>('linkSeed', false)) {
+							this.linkedSeed = e.seed
+							this.seedChanged.fire({ seed: e.seed, source: panel })
+						}
+						break
+					case 'errors':
+						publishErrors(e.errors).catch(e => {
+							this.logger.error(`[ViewProvider] Failed to publish errors: ${e.message}`)
+						})
+						break
+					case 'copy':
+						// The clipboard of the webview isn't always available
+						vscode.env.clipboard.writeText(e.text).then(() => {
+							vscode.window.setStatusBarMessage(`Copied ${e.text}`, 3000)
+						}, e => {
+							vscode.window.showErrorMessage(`Failed to copy: ${e.message}`)
+						})
+						break
+					case 'save':
+						this.saveFile(fileUri, e.name, e.encoding === 'base64' ? Buffer.from(e.content, 'base64') : e.content).catch(e => {
+							vscode.window.showErrorMessage(`Failed to save: ${e.message}`)
+						})
+						break
+					case 'open':
+						openResource(e.key, e.identifier, e.preview, e.path).catch(e => {
+							vscode.window.showErrorMessage(`Failed to open: ${e.message}`)
+						})
+						break
+					case 'reveal':
+						revealPath(e.path).catch(e => {
+							vscode.window.showErrorMessage(`Failed to open: ${e.message}`)
+						})
+						break
 				}
 			})
 
@@ -153,62 +424,150 @@ export class ViewProvider implements vscode.WebviewPanelSerializer {
 		} catch (e) {
 			this.logger.error(`[ViewProvider] Failed to initialize webview ${JSON.stringify(state)}: ${(e as any).message}`)
 			console.error(e)
+			vscode.window.showErrorMessage(`Failed to open preview: ${(e as any).message}`)
+		}
+	}
+
+	private async saveFile(fileUri: vscode.Uri, name: string, content: string | Buffer) {
+		const extension = path.extname(name).slice(1)
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(path.join(vscode.workspace.getWorkspaceFolder(fileUri)?.uri.fsPath ?? path.dirname(fileUri.fsPath), name)),
+			filters: { [extension.toUpperCase()]: [extension] },
+		})
+		if (!uri) return
+		await fs.writeFile(uri.fsPath, content)
+		vscode.window.setStatusBarMessage(`Saved ${path.basename(uri.fsPath)}`, 3000)
+	}
+
+	/**
+	 * @returns The content of `baseline`, or `undefined` if the user didn't pick a file.
+	 * @throws If the baseline doesn't exist.
+	 */
+	private async getBaseline(baseline: Baseline, fileUri: vscode.Uri, key: string, identifier: string, version: string): Promise<BaselineContent> {
+		switch (baseline.kind) {
+			case 'vanilla': {
+				const content = (await this.getVanillaData(version))[key]?.[identifier]
+				if (content === undefined) {
+					throw new Error(`${identifier} doesn't exist in vanilla ${version}`)
+				}
+				return { source: baseline, label: `vanilla ${version}`, content }
+			}
+			case 'git': {
+				const { stdout } = await execFileAsync('git', ['show', `HEAD:./${path.basename(fileUri.fsPath)}`], {
+					cwd: path.dirname(fileUri.fsPath),
+					maxBuffer: 64 * 1024 * 1024,
+				})
+				return { source: baseline, label: 'git HEAD', content: stdout }
+			}
+			case 'file': {
+				let uri = baseline.uri ? vscode.Uri.parse(baseline.uri, true) : undefined
+				if (!uri) {
+					const picked = await vscode.window.showOpenDialog({
+						defaultUri: vscode.Uri.file(path.dirname(fileUri.fsPath)),
+						filters: { JSON: ['json'] },
+						openLabel: 'Compare',
+					})
+					if (!picked?.[0]) return undefined
+					uri = picked[0]
+				}
+				const content = await fs.readFile(uri.fsPath, 'utf-8')
+				return { source: { kind: 'file', uri: uri.toString() }, label: path.basename(uri.fsPath), content }
+			}
 		}
 	}
 
+	/**
+	 * Locates an error in the document at `uri`, either from the JSON offset or
+	 * by searching for the missing reference. Falls back to the start of the file.
+	 */
+	private async getErrorRange(uri: vscode.Uri | undefined, error: ViewError) {
+		const start = new vscode.Range(0, 0, 0, 0)
+		if (!uri || (error.offset === undefined && error.reference === undefined)) {
+			return start
+		}
+		const document = await vscode.workspace.openTextDocument(uri)
+		if (error.offset !== undefined) {
+			const position = document.positionAt(error.offset)
+			return new vscode.Range(position, position.translate(0, 1))
+		}
+		const text = document.getText()
+		const reference = error.reference!
+		for (const candidate of [reference, reference.replace(/^minecraft:/, '')]) {
+			const index = text.indexOf(`"${candidate}"`)
+			if (index >= 0) {
+				return new vscode.Range(document.positionAt(index), document.positionAt(index + candidate.length + 2))
+			}
+		}
+		return start
+	}
+
 	public getHtml(webview: vscode.Webview, title: string) {
 		const nonce = getNonce()
 		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, 'out', 'view.js'))
 		const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, 'res', 'view.css'))
+		const workerUri = webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, 'out', 'worker.js'))
 
 		return `<!DOCTYPE html>
 			<html lang="en">
 				<head>
 					<meta charset="UTF-8">
-					<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource}; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource}; style-src ${webview.cspSource}; script-src 'nonce-${nonce}'; connect-src ${webview.cspSource}; worker-src blob:;">
 					<meta name="viewport" content="width=device-width, initial-scale=1.0">
 					<link href="${styleUri}" rel="stylesheet" />
 					<title>${title}</title>
 				</head>
 				<body>
-					<div id="app"></div>
+					<div id="app" data-worker="${workerUri}"></div>
 					<script nonce="${nonce}" src="${scriptUri}"></script>
 				</body>
 			</html>`
 	}
 
-	private async getVanillaData() {
-		if (this.vanilla !== undefined) return deepClone(this.vanilla)
-
-		const vanillaData = await Promise.all(ViewProvider.TYPES
-			.filter(({ fetch }) => fetch)
-			.map(async({ key }) => {
-				const data = await this.downloader.download({
-					id: `mc-je/${VERSION}/${key}.json.gz`,
-					uri: `${MCMETA}/${VERSION}-summary/data/${key}/data.min.json`,
-					transformer: (buffer) => JSON.parse(buffer.toString('utf-8')) as Promise<Record<string, string>>,
-					cache: {
-						checksumExtension: '.cache',
-						checksumJob: {
-							uri: `${MCMETA}/${VERSION}-summary/version.txt`,
-							transformer: data => data.toString('utf-8'),
-						},
-					},
-				})
-				if (!data) {
-					this.logger.error(`[ViewProvider] Failed to fetch data for '${key}'`)
-					return {} as Record<string, string>
-				}
-				return Object.fromEntries(Object.entries(data).map(([path, value]) => {
-					return ['minecraft:' + path, JSON.stringify(value)]
-				}))
-			})
-		)
+	/**
+	 * @returns The version configured in the settings, or else the version
+	 * matching the `pack_format` in the `pack.mcmeta` of the given pack.
+	 */
+	private getVersion(pack: PackFiles | undefined) {
+		const setting = vscode.workspace.getConfiguration('worldgen-tools').get<string>('version')
+		return this.loader.getVersion(pack, setting)
+	}
 
-		this.vanilla = Object.fromEntries(ViewProvider.TYPES.map((type, i) => {
-			return [type.key, vanillaData[i]]
-		}))
+	/**
+	 * @returns The packs from the settings in load order, followed by the pack
+	 * containing the previewed file if it isn't already part of them.
+	 */
+	private getPacks(filePack: string | undefined) {
+		const setting = vscode.workspace.getConfiguration('worldgen-tools').get<string[]>('packs') ?? []
+		const roots = setting.map(p => this.resolveWorkspacePath(p))
+		if (filePack && !roots.includes(path.dirname(filePack))) {
+			roots.push(path.dirname(filePack))
+		}
+		return this.loader.openPacks(roots)
+	}
 
-		return deepClone(this.vanilla)
+	/**
+	 * @returns The vanilla data of `version`, or the local vanilla data if it is configured.
+	 */
+	private getVanillaData(version: string) {
+		return loadVanillaData(this.loader, version, this.getLocalVanillaPath())
+	}
+
+	/**
+	 * @returns The absolute path of the configured local vanilla data, or `undefined` if none is set.
+	 */
+	private getLocalVanillaPath() {
+		const setting = vscode.workspace.getConfiguration('worldgen-tools').get<string>('vanillaDataPath')
+		if (!setting) {
+			return undefined
+		}
+		return this.resolveWorkspacePath(setting)
+	}
+
+	private resolveWorkspacePath(setting: string) {
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+		if (path.isAbsolute(setting) || !workspaceFolder) {
+			return path.resolve(setting)
+		}
+		return path.resolve(workspaceFolder.uri.fsPath, setting)
 	}
 }
@@ -4,11 +4,106 @@ export type ViewState = {
 	viewY: number,
 	viewScale: number,
 	viewConfig: unknown,
-	seed: number,
+	/**
+	 * Decimal representation of the 64-bit world seed.
+	 */
+	seed: string,
+	slice: Slice | undefined,
+	compare: Compare | undefined,
+}
+
+/**
+ * The plane that 2D samplers are drawn in. The first axis is horizontal on the canvas,
+ * the second axis is vertical, and the remaining axis is fixed at `coord`.
+ */
+export type Slice = {
+	axis: 'xz' | 'xy' | 'zy',
+	coord: number,
+}
+
+/**
+ * The version of the previewed file to compare against.
+ */
+export type Baseline = {
+	kind: 'vanilla',
+} | {
+	kind: 'git',
+} | {
+	kind: 'file',
+	/**
+	 * When missing, the host asks which file to use.
+	 */
+	uri?: string,
+}
+
+export type Compare = {
+	baseline: Baseline,
+	mode: 'side-by-side' | 'swipe' | 'difference',
 }
 
 export type HostMessage = {
 	type: 'ready',
+	seed: string,
+} | {
+	type: 'seed',
+	seed: string,
+} | {
+	type: 'errors',
+	errors: ViewError[],
+} | {
+	type: 'compare',
+	baseline: Baseline | undefined,
+} | {
+	type: 'copy',
+	text: string,
+} | {
+	/**
+	 * Asks where to save a file exported from the view.
+	 */
+	type: 'save',
+	name: string,
+	content: string,
+	/**
+	 * Binary files are sent as base64.
+	 */
+	encoding?: 'base64',
+} | {
+	/**
+	 * Opens a resource of the loaded data in an editor, or in a new preview.
+	 */
+	type: 'open',
+	key: string,
+	identifier: string,
+	preview: boolean,
+	/**
+	 * Keys and indices of a value to select in the editor.
+	 */
+	path?: Array<string | number>,
+} | {
+	/**
+	 * Selects a value of the previewed file in its editor.
+	 */
+	type: 'reveal',
+	path: Array<string | number>,
+}
+
+/**
+ * An error that occurred in the view while loading or sampling.
+ */
+export type ViewError = {
+	message: string,
+	/**
+	 * The resource the error occurred in. Defaults to the previewed file.
+	 */
+	resource?: { key: string, identifier: string },
+	/**
+	 * Character offset in the JSON of the resource.
+	 */
+	offset?: number,
+	/**
+	 * An identifier referenced by the resource that doesn't exist.
+	 */
+	reference?: string,
 }
 
 export type ViewMessage = {
@@ -17,6 +112,28 @@ export type ViewMessage = {
 	fileUri: string,
 	fileResource: string,
 	data: Record<string, Record<string, string>>,
+	packs: string[],
+	origins: Record<string, Record<string, number>>,
+	/**
+	 * Content of the baseline file, when comparing.
+	 */
+	baseline?: {
+		source: Baseline,
+		label: string,
+		content: string,
+	},
+} | {
+	/**
+	 * Seed input, parsed the same way as seeds typed in the view.
+	 */
+	type: 'seed',
+	seed: string,
+} | {
+	/**
+	 * Computes biome statistics of a square area around the center of the view.
+	 */
+	type: 'statistics',
+	size: number,
 }
 
 export interface Logger {
@@ -0,0 +1,34 @@
+import assert from 'assert'
+import { CachePool } from '../view/cache'
+import { getContentHash, loadRegistries } from '../view/registries'
+import { test } from './harness'
+
+test('cache: evicts the least recently used chunk', () => {
+	const pool = new CachePool(2)
+	const cache = pool.get<number>('test')
+	let computed = 0
+	const get = (u: number) => cache.get(u, 0, () => computed += 1)
+	get(0)
+	get(16)
+	get(0)
+	// The chunk at 16 was used least recently
+	get(32)
+	const before = computed
+	get(0)
+	assert.strictEqual(computed, before)
+	get(16)
+	assert.strictEqual(computed, before + 1)
+})
+
+test('cache: keys differ for every change of the referenced content', () => {
+	const hill = (scale: number) => JSON.stringify({ type: 'minecraft:noise', noise: 'sample:bumps', xz_scale: scale, y_scale: 1 })
+	const keys = new Set<string>()
+	for (let scale = 0; scale < 1000; scale += 1) {
+		loadRegistries({ 'worldgen/density_function': { 'sample:hill': hill(scale) } })
+		keys.add(getContentHash('sample:hill'))
+	}
+	assert.strictEqual(keys.size, 1000)
+	const large = { type: 'minecraft:add', argument1: 'sample:hill', argument2: 'x'.repeat(2000) }
+	assert.notStrictEqual(getContentHash(large), getContentHash({ ...large, argument2: 'y'.repeat(2000) }))
+	assert.ok(getContentHash(large).length < 100)
+})
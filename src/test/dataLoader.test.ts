@@ -0,0 +1,51 @@
+import assert from 'assert'
+import fs from 'fs/promises'
+import path from 'path'
+import { DataLoader, MCMETA } from '../extension/dataLoader'
+import type { RemoteUriString } from '../extension/downloader'
+import { Downloader, LowLevelDownloader } from '../extension/downloader'
+import { createLogger, FIXTURES, withCacheRoot } from './fixtures'
+import { test } from './harness'
+
+const LIST = 'worldgen/multi_noise_biome_source_parameter_list'
+
+/**
+ * Loads a folder of vanilla data with a parameter list of the overworld preset.
+ * @param report Content of the bundled biome parameters report.
+ */
+async function loadLocalLists(version: string, report: object | undefined) {
+	const { logger, messages } = createLogger()
+	const fixtures: Record<RemoteUriString, Buffer> = {
+		[`${MCMETA}/1.20.1-reports/biome_parameters/minecraft/overworld.json`]: await fs.readFile(path.join(FIXTURES, 'mcmeta/1.20.1-reports/biome_parameters/minecraft/overworld.json')),
+	}
+	return withCacheRoot(async cacheRoot => {
+		const write = async (file: string, json: object) => {
+			await fs.mkdir(path.dirname(path.join(cacheRoot, 'vanilla', file)), { recursive: true })
+			await fs.writeFile(path.join(cacheRoot, 'vanilla', file), JSON.stringify(json))
+		}
+		await write(`data/minecraft/${LIST}/overworld.json`, { preset: 'minecraft:overworld' })
+		if (report) {
+			await write('reports/biome_parameters/minecraft/overworld.json', report)
+		}
+		const loader = new DataLoader(new Downloader(cacheRoot, logger, LowLevelDownloader.mock({ fixtures })), logger)
+		const vanilla = await loader.getVanillaData(version, path.join(cacheRoot, 'vanilla'))
+		return { list: JSON.parse(vanilla[LIST]['minecraft:overworld']), messages }
+	})
+}
+
+test('data loader: expands presets with the reports of local vanilla data', async () => {
+	const biomes = [{ biome: 'minecraft:plains', parameters: {} }]
+	const { list } = await loadLocalLists('1.20.1', { biomes })
+	assert.deepStrictEqual(list, { preset: 'minecraft:overworld', biomes })
+})
+
+test('data loader: downloads the reports that local vanilla data lacks', async () => {
+	const { list } = await loadLocalLists('1.20.1', undefined)
+	assert.strictEqual(list.biomes[0].biome, 'minecraft:ocean')
+})
+
+test('data loader: warns about presets without reports', async () => {
+	const { list, messages } = await loadLocalLists('1.19', undefined)
+	assert.strictEqual(list.biomes, undefined)
+	assert.ok(messages.some(msg => msg.startsWith('warn [DataLoader] Missing biome parameters of preset minecraft:overworld')), messages.join('\n'))
+})
@@ -0,0 +1,16 @@
+import assert from 'assert'
+import { Identifier, WorldgenRegistries } from 'deepslate'
+import { ResourceError, toViewError } from '../view/errors'
+import { test } from './harness'
+
+test('errors: finds the missing reference of a registry lookup', () => {
+	let error: unknown
+	try {
+		WorldgenRegistries.DENSITY_FUNCTION.getOrThrow(Identifier.parse('does/not_exist'))
+	} catch (e) {
+		error = new ResourceError('worldgen/density_function', 'sample:broken', e)
+	}
+	const viewError = toViewError(error)
+	assert.strictEqual(viewError.reference, 'minecraft:does/not_exist')
+	assert.deepStrictEqual(viewError.resource, { key: 'worldgen/density_function', identifier: 'sample:broken' })
+})
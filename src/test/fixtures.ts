@@ -0,0 +1,73 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { DataLoader, MCMETA } from '../extension/dataLoader'
+import type { RemoteUriString } from '../extension/downloader'
+import { Downloader, LowLevelDownloader } from '../extension/downloader'
+import type { Logger } from '../shared'
+
+/**
+ * Tests are run from the root of the repository.
+ */
+export const FIXTURES = path.resolve('src/test/fixtures')
+
+/**
+ * Collects messages instead of printing them, so that expected errors don't clutter the output.
+ */
+export function createLogger() {
+	const messages: string[] = []
+	const logger: Logger = {
+		error: (msg) => messages.push(`error ${msg}`),
+		info: (msg) => messages.push(`info ${msg}`),
+		log: (msg) => messages.push(`log ${msg}`),
+		warn: (msg) => messages.push(`warn ${msg}`),
+	}
+	return { logger, messages }
+}
+
+/**
+ * Runs `fn` with an empty cache folder that is removed afterwards.
+ */
+export async function withCacheRoot<T>(fn: (cacheRoot: string) => Promise<T>) {
+	const cacheRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'worldgen-tools-test-'))
+	try {
+		return await fn(cacheRoot)
+	} finally {
+		await fs.rm(cacheRoot, { recursive: true, force: true })
+	}
+}
+
+/**
+ * @returns The files in `fixtures/mcmeta` by the URI they are downloaded from.
+ */
+async function readMcmetaFixtures() {
+	const fixtures: Record<RemoteUriString, Buffer> = {}
+	const root = path.join(FIXTURES, 'mcmeta')
+	const visit = async (dir: string) => {
+		for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+			const file = path.join(dir, entry.name)
+			if (entry.isDirectory()) {
+				await visit(file)
+			} else {
+				const uri = `${MCMETA}/${path.relative(root, file).replace(/\\/g, '/')}` as RemoteUriString
+				fixtures[uri] = await fs.readFile(file)
+			}
+		}
+	}
+	await visit(root)
+	return fixtures
+}
+
+/**
+ * Loads the fixture vanilla data through a mocked downloader, followed by the fixture packs.
+ */
+export async function loadFixtureData(packs: string[]) {
+	const { logger } = createLogger()
+	const fixtures = await readMcmetaFixtures()
+	return withCacheRoot(async cacheRoot => {
+		const loader = new DataLoader(new Downloader(cacheRoot, logger, LowLevelDownloader.mock({ fixtures })), logger)
+		const sources = await loader.openPacks(packs.map(pack => path.join(FIXTURES, 'packs', pack)))
+		const version = await loader.getVersion(sources[sources.length - 1]?.files, undefined)
+		return loader.addPacks(await loader.getVanillaData(version, undefined), sources)
+	})
+}
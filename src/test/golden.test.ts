@@ -0,0 +1,152 @@
+import assert from 'assert'
+import fs from 'fs/promises'
+import path from 'path'
+import { sampleValues } from '../cli/grid'
+import type { Slice } from '../shared'
+import { loadRegistries } from '../view/registries'
+import { createSampler } from '../view/samplers'
+import type { ValueRegion } from '../view/statistics'
+import { imageArea } from '../view/tiles'
+import { FIXTURES, loadFixtureData } from './fixtures'
+import { test, UPDATE_SNAPSHOTS } from './harness'
+
+type GoldenCase = {
+	name: string,
+	type: string,
+	id: string,
+	seed: string,
+	slice: Slice,
+	region: ValueRegion,
+	scale: number,
+	config?: unknown,
+}
+
+/**
+ * Samplers of the fixture packs, compared with the grids in `fixtures/golden`.
+ */
+const CASES: GoldenCase[] = [
+	{
+		name: 'noise',
+		type: 'worldgen/noise', id: 'sample:bumps', seed: '0',
+		slice: { axis: 'xy', coord: 0 }, region: { u: -64, v: -64, width: 128, height: 128 }, scale: 8,
+	},
+	{
+		name: 'density_function',
+		type: 'worldgen/density_function', id: 'sample:hills', seed: '123',
+		slice: { axis: 'xy', coord: 0 }, region: { u: -64, v: 0, width: 128, height: 128 }, scale: 8,
+	},
+	{
+		name: 'noise_settings_final_density',
+		type: 'worldgen/noise_settings', id: 'sample:hills', seed: '123', config: 'finalDensity',
+		slice: { axis: 'zy', coord: 16 }, region: { u: -64, v: 0, width: 128, height: 128 }, scale: 8,
+	},
+	{
+		name: 'noise_settings_continents',
+		type: 'worldgen/noise_settings', id: 'sample:hills', seed: '-4172144997902289642', config: 'continents',
+		slice: { axis: 'xz', coord: 64 }, region: { u: -4096, v: -4096, width: 8192, height: 8192 }, scale: 512,
+	},
+	{
+		name: 'dimension_biomes',
+		type: 'dimension', id: 'sample:hills', seed: '42', config: 'biomes',
+		slice: { axis: 'xz', coord: 64 }, region: { u: -8192, v: -8192, width: 16384, height: 16384 }, scale: 1024,
+	},
+	{
+		name: 'dimension_temperature',
+		type: 'dimension', id: 'sample:hills', seed: '42', config: 'temperature',
+		slice: { axis: 'xz', coord: 64 }, region: { u: -8192, v: -8192, width: 16384, height: 16384 }, scale: 1024,
+	},
+]
+
+/**
+ * Allows for differences in the last digits, which don't change how a preview looks.
+ */
+const TOLERANCE = 1e-9
+
+/**
+ * Positions of differences that are listed in a failure.
+ */
+const MAX_REPORTED = 5
+
+let data: Promise<Record<string, Record<string, string>>> | undefined
+
+for (const c of CASES) {
+	test(`golden: ${c.name}`, async () => {
+		data = data ?? loadFixtureData(['sample'])
+		loadRegistries(await data)
+		const content = (await data)[c.type]?.[c.id]
+		assert.ok(content !== undefined, `Missing fixture ${c.type} ${c.id}`)
+		const sampler = createSampler(c.type, JSON.parse(content), BigInt(c.seed))
+		if (c.config !== undefined) {
+			sampler.setConfig?.(c.config)
+		}
+		sampler.setSlice?.(c.slice)
+		const actual = sampleValues(sampler, c.region, c.scale)
+
+		const file = path.join(FIXTURES, 'golden', `${c.name}.json`)
+		if (UPDATE_SNAPSHOTS) {
+			await fs.mkdir(path.dirname(file), { recursive: true })
+			await fs.writeFile(file, JSON.stringify(actual.values.map(row => JSON.stringify(row)), null, '\t')
+				.replace(/"(\[.*\])"/g, (_, row) => row.replace(/\\"/g, '"')) + '\n')
+			return
+		}
+
+		let expected: Array<Array<number | string>>
+		try {
+			expected = JSON.parse(await fs.readFile(file, 'utf-8'))
+		} catch (e) {
+			throw new Error(`Cannot read ${path.relative(FIXTURES, file)}, run \`npm run test:update\` to create it`)
+		}
+		assert.strictEqual(actual.height, expected.length, 'Different amount of rows')
+		const differences: string[] = []
+		let count = 0
+		actual.values.forEach((row, j) => row.forEach((value, i) => {
+			const other = expected[j][i]
+			const equal = typeof value === 'number' && typeof other === 'number'
+				? Math.abs(value - other) <= TOLERANCE * Math.max(1, Math.abs(other))
+				: value === other
+			if (!equal) {
+				count += 1
+				if (differences.length < MAX_REPORTED) {
+					differences.push(`at column ${i}, row ${j}: expected ${other}, got ${value}`)
+				}
+			}
+		}))
+		if (count > 0) {
+			throw new Error(`${count} of ${actual.width * actual.height} samples differ\n${differences.join('\n')}`)
+		}
+	})
+}
+
+test('golden: grids have the size of exported images', async () => {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries(await data)
+	const sampler = createSampler('worldgen/noise', JSON.parse((await data)['worldgen/noise']['sample:bumps']), BigInt(0))
+	const region = { u: -50, v: -50, width: 100, height: 60 }
+	const grid = sampleValues(sampler, region, 8)
+	const area = imageArea(region, 8)
+	assert.deepStrictEqual([grid.width, grid.height], [area.width, area.height])
+	assert.deepStrictEqual([grid.width, grid.height], [13, 8])
+})
+
+test('golden: surface heights are top-down in every slice', async () => {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries(await data)
+	const sampler = createSampler('worldgen/noise_settings', JSON.parse((await data)['worldgen/noise_settings']['sample:hills']), BigInt(0))
+	sampler.setConfig?.({ layer: 'surfaceHeight' })
+	const region = { u: -32, v: -32, width: 64, height: 64 }
+	sampler.setSlice?.({ axis: 'xz', coord: 64 })
+	const expected = sampleValues(sampler, region, 8)
+	sampler.setSlice?.({ axis: 'zy', coord: 16 })
+	assert.deepStrictEqual(sampleValues(sampler, region, 8), expected)
+	assert.deepStrictEqual(sampler.preferredSlice?.({ axis: 'zy', coord: 16 }), { axis: 'xz', coord: 64 })
+})
+
+test('golden: terrain opens as a cross-section', async () => {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries(await data)
+	const sampler = createSampler('dimension', JSON.parse((await data)['dimension']['sample:hills']), BigInt(0))
+	assert.deepStrictEqual(sampler.preferredSlice?.({ axis: 'xz', coord: 64 }), { axis: 'xz', coord: 64 })
+	sampler.setConfig?.('terrain')
+	assert.deepStrictEqual(sampler.preferredSlice?.({ axis: 'xz', coord: 64 }), { axis: 'xy', coord: 0 })
+	assert.deepStrictEqual(sampler.preferredSlice?.({ axis: 'zy', coord: 16 }), { axis: 'zy', coord: 16 })
+})
@@ -0,0 +1,53 @@
+import assert from 'assert'
+import { buildDependencyGraph, getReferences, layoutGraph } from '../view/graph'
+import { test } from './harness'
+
+const DENSITY_FUNCTION = 'worldgen/density_function'
+
+test('graph: finds the references in splines, noises and noise routers', () => {
+	const spline = {
+		type: 'minecraft:spline',
+		spline: {
+			coordinate: 'overworld/continents',
+			points: [
+				{ location: 0, derivative: 0, value: 1 },
+				{ location: 1, derivative: 0, value: { coordinate: 'sample:erosion', points: [] } },
+			],
+		},
+	}
+	assert.deepStrictEqual(getReferences(DENSITY_FUNCTION, { type: 'minecraft:add', argument1: spline, argument2: { type: 'minecraft:noise', noise: 'jagged' } }), [
+		{ key: DENSITY_FUNCTION, identifier: 'minecraft:overworld/continents' },
+		{ key: DENSITY_FUNCTION, identifier: 'sample:erosion' },
+		{ key: 'worldgen/noise', identifier: 'minecraft:jagged' },
+	])
+	assert.deepStrictEqual(getReferences(DENSITY_FUNCTION, { type: 'minecraft:shift_a', argument: 'minecraft:offset' }), [
+		{ key: 'worldgen/noise', identifier: 'minecraft:offset' },
+	])
+	assert.deepStrictEqual(getReferences('dimension', { generator: { settings: { noise_router: { depth: 'sample:depth', barrier: 0 } } } }), [
+		{ key: DENSITY_FUNCTION, identifier: 'sample:depth' },
+	])
+})
+
+test('graph: marks origins, missing references and cycles', () => {
+	const data = {
+		[DENSITY_FUNCTION]: {
+			'sample:root': JSON.stringify({ type: 'minecraft:add', argument1: 'sample:a', argument2: 'sample:missing' }),
+			'sample:a': JSON.stringify({ type: 'minecraft:abs', argument: 'sample:b' }),
+			'sample:b': JSON.stringify({ type: 'minecraft:mul', argument1: 'sample:a', argument2: 'minecraft:zero' }),
+			'minecraft:zero': '0',
+		},
+	}
+	const origins = { [DENSITY_FUNCTION]: { 'sample:root': 0, 'sample:a': 0, 'sample:b': 1 } }
+	const graph = buildDependencyGraph(data, origins, DENSITY_FUNCTION, 'sample:root')
+	const ids = graph.nodes.map(n => n.identifier)
+	assert.deepStrictEqual(ids, ['sample:root', 'sample:a', 'sample:b', 'minecraft:zero', 'sample:missing'])
+	assert.deepStrictEqual(graph.nodes.map(n => n.pack), [0, 0, 1, undefined, undefined])
+	assert.deepStrictEqual(graph.nodes.map(n => n.missing), [false, false, false, false, true])
+	assert.deepStrictEqual(graph.cycles.map(c => c.map(i => ids[i])), [['sample:a', 'sample:b']])
+	assert.deepStrictEqual(graph.nodes.filter(n => n.cycle).map(n => n.identifier), ['sample:a', 'sample:b'])
+	assert.deepStrictEqual(graph.nodes.map(n => n.depth), [0, 1, 2, 3, 1])
+
+	const layout = layoutGraph(graph)
+	assert.strictEqual(layout.columns, 4)
+	assert.strictEqual(layout.rows, 2)
+})
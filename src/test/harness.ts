@@ -0,0 +1,34 @@
+/**
+ * A minimal test runner, tests are registered by importing their module and run in order.
+ */
+type Test = {
+	name: string,
+	run: () => void | Promise<void>,
+}
+
+const tests: Test[] = []
+
+/**
+ * Golden files are rewritten instead of compared when the tests are run with `--update`.
+ */
+export const UPDATE_SNAPSHOTS = process.argv.includes('--update')
+
+export function test(name: string, run: () => void | Promise<void>) {
+	tests.push({ name, run })
+}
+
+export async function runTests() {
+	let failed = 0
+	for (const { name, run } of tests) {
+		try {
+			await run()
+			console.log(`  ok  ${name}`)
+		} catch (e) {
+			failed += 1
+			console.log(`  FAIL  ${name}`)
+			console.log(`        ${((e as any)?.message ?? String(e)).replace(/\n/g, '\n        ')}`)
+		}
+	}
+	console.log(`\n${tests.length - failed} passed, ${failed} failed`)
+	process.exitCode = failed > 0 ? 1 : 0
+}
@@ -0,0 +1,12 @@
+import './cache.test'
+import './dataLoader.test'
+import './downloader.test'
+import './errors.test'
+import './golden.test'
+import './graph.test'
+import './inspector.test'
+import './profiler.test'
+import './tiles.test'
+import { runTests } from './harness'
+
+runTests()
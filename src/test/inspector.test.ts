@@ -0,0 +1,107 @@
+import assert from 'assert'
+import { NoiseGeneratorSettings, RandomState } from 'deepslate'
+import { findJsonPath } from '../extension/jsonPath'
+import type { InspectedNode } from '../view/inspector'
+import { DensityFunctionInspector } from '../view/inspector'
+import { loadRegistries } from '../view/registries'
+import { createSampler } from '../view/samplers'
+import { loadFixtureData } from './fixtures'
+import { test } from './harness'
+
+let data: Promise<Record<string, Record<string, string>>> | undefined
+
+async function inspect(fileType: string, json: unknown, layer?: string) {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries(await data)
+	const sampler = createSampler(fileType, json, BigInt(0))
+	if (layer) {
+		sampler.setConfig?.({ layer })
+	}
+	sampler.setSlice?.({ axis: 'xy', coord: 0 })
+	return sampler
+}
+
+function describe(node: InspectedNode): unknown {
+	return [node.field ?? node.type, node.path.join('.'), node.children.map(describe)]
+}
+
+test('inspector: evaluates every node at the position', async () => {
+	const sampler = await inspect('worldgen/density_function', {
+		type: 'minecraft:mul',
+		argument1: { type: 'minecraft:interpolated', argument: 'sample:hills' },
+		argument2: 2,
+	})
+	const { root, references } = sampler.inspect!(5, 41)
+	assert.strictEqual(root.value, sampler.sampleValue!(5, 41))
+	assert.deepStrictEqual(describe(root), ['mul', '', [
+		['argument1', 'argument1', [['argument', 'argument1.argument', []]]],
+		['argument2', 'argument2', []],
+	]])
+	const reference = root.children[0].children[0]
+	assert.strictEqual(reference.reference, 'sample:hills')
+	const hills = references['sample:hills']
+	assert.strictEqual(hills.resource, 'sample:hills')
+	assert.deepStrictEqual(hills.children.map(child => child.path), [['argument1'], ['argument2']])
+	assert.strictEqual(root.value, root.children[0].value! * 2)
+	// Inside of interpolated, nodes have their value at the position instead of at the corners of the cell
+	assert.strictEqual(reference.value, hills.value)
+	assert.strictEqual(hills.value, hills.children[0].value! + hills.children[1].value!)
+	assert.deepStrictEqual(hills.children[1].arguments, ['noise: sample:bumps', 'xz_scale: 1', 'y_scale: 0.5'])
+})
+
+test('inspector: locates router functions in the noise settings', async () => {
+	const sampler = await inspect('worldgen/noise_settings', {
+		noise: { min_y: 0, height: 128, size_horizontal: 1, size_vertical: 1 },
+		noise_router: {
+			final_density: { type: 'minecraft:spline', spline: {
+				coordinate: 'sample:hills',
+				points: [
+					{ location: 0, value: 0, derivative: 0 },
+					{ location: 1, value: { coordinate: { type: 'minecraft:y_clamped_gradient', from_y: 0, to_y: 64, from_value: 0, to_value: 1 }, points: [{ location: 0, value: 0, derivative: 1 }] }, derivative: 0 },
+				],
+			} },
+		},
+	}, 'finalDensity')
+	const { root } = sampler.inspect!(0, 20)
+	assert.deepStrictEqual(root.children.map(child => child.path), [
+		['noise_router', 'final_density', 'spline', 'coordinate'],
+		['noise_router', 'final_density', 'spline', 'points', 1, 'value', 'coordinate'],
+	])
+	assert.strictEqual(root.children[1].value, 20 / 64)
+})
+
+test('inspector: finds the nodes in the JSON text', () => {
+	const text = '{\n  "type": "add",\n  "argument1": [1, {"a\\"": "x"}, { "b": 2 }],\n  "argument2": { "argument": -0.5 }\n}'
+	const value = (path: Array<string | number>) => {
+		const range = findJsonPath(text, path)
+		return range && text.slice(...range)
+	}
+	assert.strictEqual(value(['argument2', 'argument']), '-0.5')
+	assert.strictEqual(value(['argument1', 2]), '{ "b": 2 }')
+	assert.strictEqual(value(['argument1', 1, 'a"']), '"x"')
+	assert.strictEqual(value([]), text)
+	assert.strictEqual(value(['argument3']), undefined)
+	assert.strictEqual(value(['type', 0]), undefined)
+})
+
+test('inspector: marks reference cycles', async () => {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries({
+		...await data,
+		'worldgen/density_function': {
+			'sample:loop_a': JSON.stringify({ type: 'minecraft:abs', argument: 'sample:loop_b' }),
+			'sample:loop_b': JSON.stringify({ type: 'minecraft:add', argument1: 'sample:loop_a', argument2: 1 }),
+		},
+	})
+	const settings = NoiseGeneratorSettings.create({ noise: { minY: 0, height: 256, xzSize: 1, ySize: 1 } })
+	const state = new RandomState(settings, BigInt(0))
+	const inspector = new DensityFunctionInspector('sample:loop_a', [], state.createVisitor(settings.noise, false))
+	const { root, references } = inspector.inspect(0, 0, 0)
+	assert.deepStrictEqual(Object.keys(references).sort(), ['sample:loop_a', 'sample:loop_b'])
+	const cycle = references['sample:loop_b'].children[0]
+	assert.strictEqual(cycle.reference, 'sample:loop_a')
+	assert.strictEqual(cycle.cycle, true)
+	assert.strictEqual(cycle.value, undefined)
+	assert.strictEqual(root.value, undefined)
+	assert.strictEqual(references['sample:loop_b'].children[1].value, 1)
+})
@@ -0,0 +1,53 @@
+import assert from 'assert'
+import type { ProfileReport } from '../view/profiler'
+import { profileRegion } from '../view/profiler'
+import { loadRegistries } from '../view/registries'
+import { createSampler } from '../view/samplers'
+import { loadFixtureData } from './fixtures'
+import { test } from './harness'
+
+const REGION = { u: -32, v: 0, width: 64, height: 64 }
+
+const noise = (yScale: number) => ({ type: 'minecraft:noise', noise: 'sample:bumps', xz_scale: 1, y_scale: yScale })
+
+let data: Promise<Record<string, Record<string, string>>> | undefined
+
+async function profile(json: unknown) {
+	data = data ?? loadFixtureData(['sample'])
+	loadRegistries(await data)
+	const sampler = createSampler('worldgen/density_function', json, BigInt(0))
+	sampler.setSlice?.({ axis: 'xy', coord: 0 })
+	return { sampler, report: await profileRegion(sampler.profile!(), REGION, () => {}, () => false) }
+}
+
+function warnings(report: ProfileReport) {
+	return report.nodes.flatMap(node => node.warnings.map(warning => `${node.label}: ${warning}`))
+}
+
+test('profiler: evaluates the same values as the sampler', async () => {
+	const { sampler } = await profile('sample:hills')
+	const profiler = sampler.profile!()
+	for (const [u, v] of [[0, 0], [5, 7], [-30, 100]]) {
+		assert.strictEqual(profiler.sample(u, v), sampler.sampleValue!(u, v))
+	}
+})
+
+test('profiler: counts the evaluations of every node', async () => {
+	const { report } = await profile('sample:hills')
+	assert.strictEqual(report.samples, REGION.width * REGION.height)
+	const root = report.nodes[report.root]
+	assert.strictEqual(root.reference, 'sample:hills')
+	assert.deepStrictEqual(root.children.map(id => report.nodes[id].label), ['y_clamped_gradient', 'noise sample:bumps'])
+	report.nodes.forEach(node => assert.strictEqual(node.count, report.samples, node.label))
+})
+
+test('profiler: warns about noises outside of caches', async () => {
+	const uncached = await profile(noise(1))
+	assert.match(warnings(uncached.report).join('\n'), /noise sample:bumps: .*interpolated/)
+	const flat = await profile(noise(0))
+	assert.match(warnings(flat.report).join('\n'), /noise sample:bumps: .*flat_cache or cache_2d/)
+	const interpolated = await profile({ type: 'minecraft:interpolated', argument: noise(1) })
+	assert.deepStrictEqual(warnings(interpolated.report), [])
+	const cached = await profile({ type: 'minecraft:cache_2d', argument: noise(0) })
+	assert.deepStrictEqual(warnings(cached.report), [])
+})
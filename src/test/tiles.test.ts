@@ -0,0 +1,22 @@
+import assert from 'assert'
+import type { TileJob } from '../view/tiles'
+import { queueTiles, START_STEP } from '../view/tiles'
+import { test } from './harness'
+
+const tile = (key: string) => ({ key, x: 0, y: 0, scale: 1 })
+
+test('tiles: keeps the passes of queued tiles', () => {
+	const [job] = queueTiles([], [tile('a')])
+	job.step = START_STEP / 2
+	const queue = queueTiles([job], [tile('b'), tile('a')])
+	assert.deepStrictEqual(queue.map(job => [job.key, job.step]), [['b', START_STEP], ['a', START_STEP / 2]])
+	assert.strictEqual(queue[1], job)
+})
+
+test('tiles: renders evicted tiles again', () => {
+	let queue: TileJob[] = queueTiles([], [tile('a'), tile('b')])
+	// The worker finishes the first tile, then the renderer evicts it and requests it again
+	queue = queue.filter(job => job.key !== 'a')
+	queue = queueTiles(queue, [tile('a'), tile('b')])
+	assert.deepStrictEqual(queue.map(job => [job.key, job.step]), [['a', START_STEP], ['b', START_STEP]])
+})
@@ -0,0 +1,117 @@
+const CHUNK_BITS = 4
+const CHUNK_SIZE = 1 << CHUNK_BITS
+const CHUNK_MASK = CHUNK_SIZE - 1
+const KEY_OFFSET = 1 << 25
+
+const EMPTY = Symbol('empty')
+
+type CacheChunk<D> = Array<D | typeof EMPTY>
+
+/**
+ * Caches values in a 2D grid, grouped in chunks of 16 by 16 values.
+ * Chunks are evicted by the {@link CachePool} the cache belongs to,
+ * least recently used first.
+ */
+export class SampleCache<D> {
+	private readonly chunks = new Map<number, CacheChunk<D>>()
+	private lastKey = NaN
+	private lastChunk: CacheChunk<D> | undefined
+
+	constructor(
+		private readonly pool: CachePool,
+		public readonly key: string,
+	) {}
+
+	public get size() {
+		return this.chunks.size
+	}
+
+	public get(u: number, v: number, compute: () => D): D {
+		const key = (u >> CHUNK_BITS) * (KEY_OFFSET * 2) + (v >> CHUNK_BITS) + KEY_OFFSET
+		let chunk = this.lastChunk
+		if (key !== this.lastKey || chunk === undefined) {
+			chunk = this.chunks.get(key)
+			if (chunk === undefined) {
+				chunk = new Array(CHUNK_SIZE * CHUNK_SIZE).fill(EMPTY)
+				this.chunks.set(key, chunk)
+				this.pool.onChunkAdded(this)
+			} else {
+				// Moves the chunk to the end, making it the last one to evict
+				this.chunks.delete(key)
+				this.chunks.set(key, chunk)
+				this.pool.onChunkUsed(this)
+			}
+			this.lastKey = key
+			this.lastChunk = chunk
+		}
+		const i = (u & CHUNK_MASK) | ((v & CHUNK_MASK) << CHUNK_BITS)
+		const value = chunk[i]
+		if (value !== EMPTY) {
+			return value
+		}
+		return chunk[i] = compute()
+	}
+
+	/**
+	 * Evicts the least recently used chunk.
+	 * @returns Whether a chunk was evicted.
+	 */
+	public evictOldest() {
+		const oldest = this.chunks.keys().next()
+		if (oldest.done) return false
+		this.chunks.delete(oldest.value)
+		if (oldest.value === this.lastKey) {
+			this.lastChunk = undefined
+		}
+		return true
+	}
+}
+
+/**
+ * Keeps the total amount of chunks in its caches bounded. Caches are identified
+ * by a key describing everything their values depend on, so that samplers
+ * created for the same input share the values that were already computed.
+ */
+export class CachePool {
+	private readonly caches = new Map<string, SampleCache<any>>()
+	private size = 0
+
+	constructor(private readonly maxChunks: number) {}
+
+	public get<D>(key: string): SampleCache<D> {
+		const cache = this.caches.get(key) ?? new SampleCache<D>(this, key)
+		this.touch(cache)
+		return cache
+	}
+
+	public onChunkUsed(cache: SampleCache<unknown>) {
+		this.touch(cache)
+	}
+
+	public onChunkAdded(cache: SampleCache<unknown>) {
+		this.size += 1
+		this.touch(cache)
+		while (this.size > this.maxChunks) {
+			const [key, oldest] = this.caches.entries().next().value as [string, SampleCache<unknown>]
+			if (oldest.evictOldest()) {
+				this.size -= 1
+			}
+			if (oldest.size === 0) {
+				this.caches.delete(key)
+			}
+		}
+	}
+
+	/**
+	 * Moves the cache to the end, making it the last one to evict from.
+	 */
+	private touch(cache: SampleCache<unknown>) {
+		this.caches.delete(cache.key)
+		this.caches.set(cache.key, cache)
+	}
+}
+
+/**
+ * Shared by all samplers, bounds the memory to roughly a million sampled values.
+ */
+export const SAMPLE_CACHES = new CachePool(4096)
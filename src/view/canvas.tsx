@@ -2,7 +2,7 @@ import { mat3, vec2 } from 'gl-matrix'
 import { h } from 'preact'
 import { useCallback, useEffect, useRef } from 'preact/hooks'
 
-interface Props {
+export interface Props {
 	onSetup: (canvas: HTMLCanvasElement) => void,
 	onDraw: (transform: mat3) => void,
 	onHover?: (offset: [number, number] | undefined) => void,
@@ -15,8 +15,13 @@ interface Props {
 	maxScale?: number,
 	onPositionChanged?: (value: [number, number]) => void,
 	onScaleChanged?: (value: number) => void,
+	/**
+	 * Follows the position and scale when they are changed from outside, for example by another canvas.
+	 */
+	position?: [number, number],
+	scale?: number,
 }
-export function InteractiveCanvas2D({ onSetup, onDraw, onHover, onResize, state, pixelSize = 1, startPosition, startScale, minScale = 1/16, maxScale = 16, onPositionChanged, onScaleChanged }: Props) {
+export function InteractiveCanvas2D({ onSetup, onDraw, onHover, onResize, state, pixelSize = 1, startPosition, startScale, minScale = 1/16, maxScale = 16, onPositionChanged, onScaleChanged, position, scale }: Props) {
 	const canvas = useRef<HTMLCanvasElement>(null)
 	const dragStart = useRef<[number, number] | undefined>()
 	const dragButton = useRef<number | undefined>()
@@ -55,6 +60,19 @@ export function InteractiveCanvas2D({ onSetup, onDraw, onHover, onResize, state,
 		redraw.current()
 	}, [state, onDraw, transform])
 
+	useEffect(function positionChanged() {
+		if (!position) return
+		if (Math.floor(-centerPos.current[0]) === position[0] && Math.floor(-centerPos.current[1]) === position[1]) return
+		centerPos.current = [-position[0], -position[1]]
+		redraw.current()
+	}, [position?.[0], position?.[1]])
+
+	useEffect(function scaleChanged() {
+		if (scale === undefined || scale === viewScale.current) return
+		viewScale.current = scale
+		redraw.current()
+	}, [scale])
+
 	useEffect(function setupListeners() {
 		if (!canvas.current) return
 		function onMouseDown(e: MouseEvent) {
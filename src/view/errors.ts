@@ -0,0 +1,30 @@
+import type { ViewError } from '../shared'
+
+/**
+ * Thrown when parsing an entry in a registry fails.
+ */
+export class ResourceError extends Error {
+	constructor(
+		public readonly key: string,
+		public readonly identifier: string,
+		public readonly cause: unknown,
+	) {
+		super(`${identifier}: ${getMessage(cause)}`)
+	}
+}
+
+export function toViewError(e: unknown): ViewError {
+	const cause = e instanceof ResourceError ? e.cause : e
+	const message = getMessage(cause)
+	const offset = message.match(/at position (\d+)/)?.[1]
+	return {
+		message,
+		resource: e instanceof ResourceError ? { key: e.key, identifier: e.identifier } : undefined,
+		offset: offset === undefined ? undefined : parseInt(offset),
+		reference: message.match(/^Missing key in \S+: (\S+)$/)?.[1],
+	}
+}
+
+function getMessage(e: unknown) {
+	return e instanceof Error ? e.message : String(e)
+}
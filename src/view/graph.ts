@@ -0,0 +1,250 @@
+import { Json } from 'deepslate'
+
+export type GraphNode = {
+	key: string,
+	identifier: string,
+	/**
+	 * Index of the pack that provides the resource, `undefined` for vanilla resources.
+	 */
+	pack: number | undefined,
+	missing: boolean,
+	/**
+	 * Whether the node is part of a reference cycle.
+	 */
+	cycle: boolean,
+	/**
+	 * Longest distance from the root, following the references that don't close a cycle.
+	 */
+	depth: number,
+}
+
+export type GraphEdge = {
+	from: number,
+	to: number,
+	/**
+	 * Whether the reference closes a cycle.
+	 */
+	cycle: boolean,
+}
+
+/**
+ * The resources that the root references, directly or through other resources. Node 0 is the root.
+ */
+export type DependencyGraph = {
+	nodes: GraphNode[],
+	edges: GraphEdge[],
+	/**
+	 * The nodes of each reference cycle, in the order they reference each other.
+	 */
+	cycles: number[][],
+}
+
+type Reference = { key: string, identifier: string }
+
+const DENSITY_FUNCTION = 'worldgen/density_function'
+const NOISE = 'worldgen/noise'
+const NOISE_SETTINGS = 'worldgen/noise_settings'
+
+/**
+ * Fields of density functions that contain density functions.
+ */
+const DENSITY_FUNCTION_FIELDS = ['argument', 'argument1', 'argument2', 'input', 'when_in_range', 'when_out_of_range', 'shift_x', 'shift_y', 'shift_z']
+
+/**
+ * Types whose `argument` is a noise instead of a density function.
+ */
+const NOISE_ARGUMENT_TYPES = ['shift_a', 'shift_b', 'shift']
+
+function typeOf(root: Record<string, unknown>) {
+	return Json.readString(root.type)?.replace(/^minecraft:/, '')
+}
+
+function normalize(identifier: string) {
+	return identifier.includes(':') ? identifier : `minecraft:${identifier}`
+}
+
+export type JsonPath = Array<string | number>
+
+/**
+ * @returns The density functions that are direct inputs of the density function `json`,
+ * with their path relative to `json`. Spline coordinates are inputs as well.
+ */
+export function densityFunctionInputs(json: unknown): Array<{ path: JsonPath, value: unknown }> {
+	const root = Json.readObject(json)
+	if (!root) return []
+	const type = typeOf(root)
+	// The argument of a constant is a number
+	const fields = type === 'constant' || NOISE_ARGUMENT_TYPES.includes(type ?? '')
+		? DENSITY_FUNCTION_FIELDS.filter(field => field !== 'argument')
+		: DENSITY_FUNCTION_FIELDS
+	const inputs = fields
+		.filter(field => root[field] !== undefined)
+		.map(field => ({ path: [field] as JsonPath, value: root[field] }))
+	const visitSpline = (spline: unknown, path: JsonPath) => {
+		const obj = Json.readObject(spline)
+		if (!obj) return
+		inputs.push({ path: [...path, 'coordinate'], value: obj.coordinate })
+		Json.readArray(obj.points, point => Json.readObject(point)?.value)?.forEach((value, i) => {
+			visitSpline(value, [...path, 'points', i, 'value'])
+		})
+	}
+	visitSpline(root.spline, ['spline'])
+	return inputs
+}
+
+function densityFunctionReferences(json: unknown, references: Reference[]) {
+	if (typeof json === 'string') {
+		references.push({ key: DENSITY_FUNCTION, identifier: normalize(json) })
+		return
+	}
+	const root = Json.readObject(json) ?? {}
+	const noise = NOISE_ARGUMENT_TYPES.includes(typeOf(root) ?? '') ? root.argument : root.noise
+	if (typeof noise === 'string') {
+		references.push({ key: NOISE, identifier: normalize(noise) })
+	}
+	densityFunctionInputs(json).forEach(input => densityFunctionReferences(input.value, references))
+}
+
+function noiseSettingsReferences(json: unknown, references: Reference[]) {
+	const router = Json.readObject(Json.readObject(json)?.noise_router) ?? {}
+	Object.values(router).forEach(fn => densityFunctionReferences(fn, references))
+}
+
+/**
+ * @returns The resources that `json` of a resource in the registry `key` references, in order of appearance.
+ */
+export function getReferences(key: string, json: unknown): Reference[] {
+	const references: Reference[] = []
+	switch (key) {
+		case DENSITY_FUNCTION:
+			densityFunctionReferences(json, references)
+			break
+		case NOISE_SETTINGS:
+			noiseSettingsReferences(json, references)
+			break
+		case 'dimension': {
+			const settings = Json.readObject(Json.readObject(json)?.generator)?.settings
+			if (typeof settings === 'string') {
+				references.push({ key: NOISE_SETTINGS, identifier: normalize(settings) })
+			} else {
+				noiseSettingsReferences(settings, references)
+			}
+			break
+		}
+	}
+	return references.filter((r, i) => references.findIndex(o => o.key === r.key && o.identifier === r.identifier) === i)
+}
+
+/**
+ * Follows the references of the root through the packs and vanilla data.
+ * Resources that fail to parse are kept as nodes without references.
+ */
+export function buildDependencyGraph(data: Record<string, Record<string, string>>, origins: Record<string, Record<string, number>>, key: string, identifier: string): DependencyGraph {
+	const nodes: GraphNode[] = []
+	const edges: GraphEdge[] = []
+	const cycles: number[][] = []
+	const indices = new Map<string, number>()
+	const references: number[][] = []
+
+	const addNode = (key: string, identifier: string) => {
+		const id = `${key} ${identifier}`
+		const existing = indices.get(id)
+		if (existing !== undefined) return existing
+		const index = nodes.length
+		indices.set(id, index)
+		const content = data[key]?.[identifier]
+		nodes.push({ key, identifier, pack: origins[key]?.[identifier], missing: content === undefined, cycle: false, depth: 0 })
+		references.push([])
+		let json: unknown
+		try {
+			json = content === undefined ? undefined : JSON.parse(content)
+		} catch (e) {
+			return index
+		}
+		for (const reference of getReferences(key, json)) {
+			references[index].push(addNode(reference.key, reference.identifier))
+		}
+		return index
+	}
+	addNode(key, identifier)
+
+	// Depth first, references to a node on the stack close a cycle
+	const state: Array<'visiting' | 'done' | undefined> = []
+	const stack: number[] = []
+	const visit = (index: number) => {
+		state[index] = 'visiting'
+		stack.push(index)
+		for (const to of references[index]) {
+			if (state[to] === 'visiting') {
+				edges.push({ from: index, to, cycle: true })
+				const cycle = stack.slice(stack.indexOf(to))
+				cycle.forEach(i => nodes[i].cycle = true)
+				cycles.push(cycle)
+				continue
+			}
+			edges.push({ from: index, to, cycle: false })
+			if (state[to] === undefined) {
+				visit(to)
+			}
+		}
+		stack.pop()
+		state[index] = 'done'
+	}
+	visit(0)
+
+	// The edges that don't close a cycle form a DAG, which is ordered by the depth first search
+	const order: number[] = []
+	const visited = new Set<number>()
+	const sort = (index: number) => {
+		if (visited.has(index)) return
+		visited.add(index)
+		edges.forEach(e => !e.cycle && e.from === index && sort(e.to))
+		order.push(index)
+	}
+	sort(0)
+	for (const index of order.reverse()) {
+		edges.forEach(e => {
+			if (!e.cycle && e.from === index) {
+				nodes[e.to].depth = Math.max(nodes[e.to].depth, nodes[index].depth + 1)
+			}
+		})
+	}
+	return { nodes, edges, cycles }
+}
+
+/**
+ * Positions of the nodes in columns by depth, in grid units.
+ */
+export type GraphLayout = {
+	positions: Array<{ column: number, row: number }>,
+	columns: number,
+	rows: number,
+}
+
+/**
+ * Orders the nodes of each column by the average row of the nodes referencing them, which
+ * keeps edges short and mostly uncrossed.
+ */
+export function layoutGraph(graph: DependencyGraph): GraphLayout {
+	const columns: number[][] = []
+	graph.nodes.forEach((node, i) => {
+		(columns[node.depth] = columns[node.depth] ?? []).push(i)
+	})
+	const height = Math.max(...columns.map(c => c.length))
+	const rows: number[] = []
+	columns.forEach(column => {
+		const parentRow = (index: number) => {
+			const parents = graph.edges.filter(e => e.to === index && !e.cycle).map(e => rows[e.from])
+			return parents.length === 0 ? 0 : parents.reduce((a, b) => a + b) / parents.length
+		}
+		const weights = new Map(column.map(index => [index, parentRow(index)]))
+		column.sort((a, b) => weights.get(a)! - weights.get(b)!)
+		// Shorter columns are centered
+		column.forEach((index, row) => rows[index] = row + (height - column.length) / 2)
+	})
+	return {
+		positions: graph.nodes.map((node, i) => ({ column: node.depth, row: rows[i] })),
+		columns: columns.length,
+		rows: height,
+	}
+}
@@ -0,0 +1,242 @@
+import { computeIfAbsent, DensityFunction, Identifier, Json } from 'deepslate'
+import type { JsonPath } from './graph'
+import { densityFunctionInputs } from './graph'
+import { getResourceContent } from './registries'
+
+/**
+ * A node of an inspected density function, with its value at the inspected position.
+ */
+export type InspectedNode = {
+	/**
+	 * Field of the parent that contains this node, `undefined` for roots.
+	 */
+	field: string | undefined,
+	type: string,
+	/**
+	 * Settings of the node besides its inputs, like its noise and scales.
+	 */
+	arguments: string[],
+	/**
+	 * `undefined` if computing the value failed.
+	 */
+	value: number | undefined,
+	/**
+	 * ID of the referenced density function, its root is in {@link Inspection.references}.
+	 */
+	reference?: string,
+	/**
+	 * Whether the reference closes a reference cycle, its root is not in {@link Inspection.references}.
+	 */
+	cycle?: boolean,
+	/**
+	 * ID of the density function that contains this node, `undefined` for the previewed file.
+	 */
+	resource: string | undefined,
+	/**
+	 * Location of the node in the JSON of its resource.
+	 */
+	path: JsonPath,
+	children: InspectedNode[],
+}
+
+export type Inspection = {
+	pos: [number, number, number],
+	root: InspectedNode,
+	/**
+	 * Roots of the referenced density functions, each listed once.
+	 */
+	references: Record<string, InspectedNode>,
+}
+
+type NodeInfo = Omit<InspectedNode, 'value' | 'children'>
+
+class InspectedFunction extends DensityFunction {
+	public children: InspectedFunction[] = []
+	public value: number | undefined
+	/**
+	 * Position of the last computed `value`.
+	 */
+	public position: string | undefined
+
+	constructor(
+		public readonly info: NodeInfo,
+		public readonly wrapped: DensityFunction,
+		private readonly inspector: DensityFunctionInspector,
+	) {
+		super()
+	}
+
+	compute(context: DensityFunction.Context) {
+		this.value = this.wrapped.compute(context)
+		this.position = `${context.x} ${context.y} ${context.z}`
+		return this.value
+	}
+
+	minValue() {
+		return this.wrapped.minValue()
+	}
+
+	maxValue() {
+		return this.wrapped.maxValue()
+	}
+
+	mapAll(visitor: DensityFunction.Visitor): DensityFunction {
+		return this.inspector.map(this, visitor)
+	}
+}
+
+/**
+ * Stands in for a reference that closes a cycle, which can't be computed.
+ */
+class ReferenceCycle extends DensityFunction {
+	constructor(private readonly reference: string) {
+		super()
+	}
+
+	compute(): number {
+		throw new Error(`Reference cycle at ${this.reference}`)
+	}
+
+	minValue() {
+		return -Infinity
+	}
+
+	maxValue() {
+		return Infinity
+	}
+}
+
+/**
+ * Keeps the value of every node of a density function, and where the node is in the JSON.
+ */
+export class DensityFunctionInspector {
+	private readonly resources = new Map<string, InspectedFunction>()
+	/**
+	 * Resources that are being parsed, references to them close a cycle.
+	 */
+	private readonly parsing = new Set<string>()
+	private readonly mapped = new Map<InspectedFunction, InspectedFunction>()
+	/**
+	 * Children of the nodes that are being mapped, innermost last.
+	 */
+	private readonly collecting: InspectedFunction[][] = []
+	private readonly root: InspectedFunction
+
+	/**
+	 * @param json The density function in the previewed file.
+	 * @param path Location of `json` in the previewed file.
+	 * @param visitor The visitor of the random state, which binds noises and resolves references.
+	 */
+	constructor(json: unknown, path: JsonPath, visitor: DensityFunction.Visitor) {
+		this.root = this.parse(json, undefined, path, undefined).mapAll(visitor) as InspectedFunction
+	}
+
+	/**
+	 * Computes the density function at a block position.
+	 */
+	public inspect(x: number, y: number, z: number): Inspection {
+		const context = DensityFunction.context(x, y, z)
+		const position = `${x} ${y} ${z}`
+		// Nodes inside caches and interpolation are computed at other positions, or not at all
+		const visited = new Set<InspectedFunction>()
+		const fill = (fn: InspectedFunction) => {
+			if (visited.has(fn)) return
+			visited.add(fn)
+			if (fn.position !== position) {
+				try {
+					fn.compute(context)
+				} catch (e) {
+					fn.value = undefined
+					fn.position = position
+				}
+			}
+			fn.children.forEach(fill)
+		}
+		fill(this.root)
+
+		const references: Record<string, InspectedNode> = {}
+		const snapshot = (fn: InspectedFunction): InspectedNode => {
+			const reference = fn.info.reference
+			if (reference !== undefined && !(reference in references) && fn.children[0]) {
+				references[reference] = { ...fn.info, value: fn.value, children: [] }
+				references[reference] = snapshot(fn.children[0])
+			}
+			return { ...fn.info, value: fn.value, children: reference === undefined ? fn.children.map(snapshot) : [] }
+		}
+		return { pos: [x, y, z], root: snapshot(this.root), references }
+	}
+
+	/**
+	 * Maps the wrapped function and collects the nodes that it contains. Nodes of referenced
+	 * density functions are only mapped once.
+	 */
+	public map(fn: InspectedFunction, visitor: DensityFunction.Visitor) {
+		const collecting = this.collecting[this.collecting.length - 1]
+		let mapped = this.mapped.get(fn)
+		if (!mapped) {
+			this.collecting.push([])
+			const wrapped = fn.wrapped.mapAll(visitor)
+			mapped = new InspectedFunction(fn.info, wrapped, this)
+			mapped.children = this.collecting.pop()!
+			this.mapped.set(fn, mapped)
+		}
+		collecting?.push(mapped)
+		return visitor.map(mapped)
+	}
+
+	private parse(json: unknown, resource: string | undefined, path: JsonPath, field: string | undefined): InspectedFunction {
+		const inputs = densityFunctionInputs(json)
+		const used = new Set<number>()
+		if (typeof json === 'string') {
+			const reference = Identifier.parse(json).toString()
+			const info = { field, type: reference, arguments: [], reference, resource, path }
+			if (this.parsing.has(reference)) {
+				return new InspectedFunction({ ...info, cycle: true }, new ReferenceCycle(reference), this)
+			}
+			return new InspectedFunction(info, this.parseResource(reference) ?? DensityFunction.fromJson(json), this)
+		}
+		const wrapped = DensityFunction.fromJson(json, input => {
+			const index = inputs.findIndex((other, i) => !used.has(i) && other.value === input)
+			if (index < 0) {
+				return DensityFunction.fromJson(input)
+			}
+			used.add(index)
+			const inputPath = inputs[index].path
+			return this.parse(input, resource, [...path, ...inputPath], String(inputPath[inputPath.length - 1]))
+		})
+		return new InspectedFunction({ field, ...describe(json, inputs.map(input => input.path[0])), resource, path }, wrapped, this)
+	}
+
+	/**
+	 * @returns `undefined` if the resource doesn't exist or isn't valid JSON.
+	 */
+	private parseResource(identifier: string) {
+		const content = getResourceContent('worldgen/density_function', identifier)
+		if (content === undefined) return undefined
+		let json: unknown
+		try {
+			json = JSON.parse(content)
+		} catch (e) {
+			return undefined
+		}
+		return computeIfAbsent(this.resources, identifier, () => {
+			this.parsing.add(identifier)
+			try {
+				return this.parse(json, identifier, [], undefined)
+			} finally {
+				this.parsing.delete(identifier)
+			}
+		})
+	}
+}
+
+function describe(json: unknown, inputFields: Array<string | number>): { type: string, arguments: string[] } {
+	if (typeof json === 'number') {
+		return { type: 'constant', arguments: [`${json}`] }
+	}
+	const root = Json.readObject(json) ?? {}
+	const args = Object.entries(root)
+		.filter(([key]) => key !== 'type' && key !== 'spline' && !inputFields.includes(key))
+		.map(([key, value]) => `${key}: ${typeof value === 'object' && value !== null ? '{…}' : value}`)
+	return { type: Json.readString(root.type)?.replace(/^minecraft:/, '') ?? 'unknown', arguments: args }
+}
@@ -0,0 +1,328 @@
+import { computeIfAbsent, CubicSpline, DensityFunction } from 'deepslate'
+import type { ValueRegion } from './statistics'
+
+/**
+ * A node of a profiled density function. Nodes of referenced density functions are
+ * shared by every function that references them.
+ */
+export type ProfileNode = {
+	id: number,
+	/**
+	 * Type of the node, with the noise for noise nodes.
+	 */
+	label: string,
+	/**
+	 * ID of the density function that this node is the root of.
+	 */
+	reference?: string,
+	/**
+	 * Amount of evaluations.
+	 */
+	count: number,
+	/**
+	 * Time in milliseconds, including the children.
+	 */
+	time: number,
+	/**
+	 * Time in milliseconds, excluding the children.
+	 */
+	self: number,
+	usesY: boolean,
+	/**
+	 * Whether the node samples a noise itself, where most of the time is spent.
+	 */
+	noise: boolean,
+	children: number[],
+	warnings: string[],
+}
+
+export type ProfileReport = {
+	root: number,
+	nodes: ProfileNode[],
+	samples: number,
+	/**
+	 * Distance between samples in blocks.
+	 */
+	step: number,
+}
+
+/**
+ * Evaluates samples in the plane of the slice, like `Sampler.sampleValue` without the sample cache.
+ */
+export interface SampleProfiler {
+	sample(u: number, v: number): number
+	report(step: number): ProfileReport
+}
+
+/**
+ * Time spent in the children of the node that is currently evaluated. Workers evaluate one sample at a time.
+ */
+let childTime = 0
+
+class ProfiledFunction extends DensityFunction {
+	public count = 0
+	public time = 0
+	public self = 0
+	public reference: string | undefined
+
+	constructor(
+		public readonly id: number,
+		public readonly label: string,
+		public readonly wrapped: DensityFunction,
+		public readonly children: ProfiledFunction[],
+		public readonly usesY: boolean,
+		public readonly noise: boolean,
+	) {
+		super()
+	}
+
+	compute(context: DensityFunction.Context) {
+		const outer = childTime
+		childTime = 0
+		const start = performance.now()
+		const value = this.wrapped.compute(context)
+		const elapsed = performance.now() - start
+		this.count += 1
+		this.time += elapsed
+		this.self += elapsed - childTime
+		childTime = outer + elapsed
+		return value
+	}
+
+	minValue() {
+		return this.wrapped.minValue()
+	}
+
+	maxValue() {
+		return this.wrapped.maxValue()
+	}
+}
+
+/**
+ * Nodes that take at least this share of the total time get warnings.
+ */
+const WARNING_SHARE = 0.1
+
+/**
+ * Wraps every node of a density function to count its evaluations and measure its time.
+ */
+export class DensityFunctionProfiler {
+	private readonly nodes: ProfiledFunction[] = []
+	private readonly references = new Map<string, DensityFunction>()
+	private readonly root: ProfiledFunction
+
+	/**
+	 * @param fn The density function as read from JSON, before it is mapped by `visitor`.
+	 * @param visitor The visitor of the random state, which binds noises and resolves references.
+	 */
+	constructor(fn: DensityFunction, visitor: DensityFunction.Visitor) {
+		// References are resolved here, the visitor of the random state would map them without wrapping their nodes
+		const profiling: DensityFunction.Visitor = {
+			map: fn => {
+				if (fn instanceof DensityFunction.HolderHolder) {
+					const key = fn.holder.key()?.toString()
+					if (key === undefined) {
+						return fn.holder.value().mapAll(profiling)
+					}
+					return computeIfAbsent(this.references, key, () => {
+						const value = fn.holder.value().mapAll(profiling)
+						if (value instanceof ProfiledFunction && value.reference === undefined) {
+							value.reference = key
+						}
+						return value
+					})
+				}
+				return this.wrap(visitor.map(fn))
+			},
+		}
+		const root = fn.mapAll(profiling)
+		this.root = root instanceof ProfiledFunction ? root : this.wrap(root)
+	}
+
+	public compute(x: number, y: number, z: number) {
+		childTime = 0
+		return this.root.compute(DensityFunction.context(x, y, z))
+	}
+
+	public report(step: number): ProfileReport {
+		return {
+			root: this.root.id,
+			nodes: this.nodes.map(node => ({
+				id: node.id,
+				label: node.label,
+				reference: node.reference,
+				count: node.count,
+				time: node.time,
+				self: Math.max(0, node.self),
+				usesY: node.usesY,
+				noise: node.noise,
+				children: node.children.map(child => child.id),
+				warnings: [],
+			})),
+			samples: this.root.count,
+			step,
+		}
+	}
+
+	private wrap(fn: DensityFunction) {
+		const children = childrenOf(fn).flatMap(child => child instanceof ProfiledFunction ? [child] : [])
+		const noise = fn instanceof DensityFunction.Noise || fn instanceof DensityFunction.WeirdScaledSampler
+			|| fn instanceof DensityFunction.ShiftNoise || fn instanceof DensityFunction.OldBlendedNoise
+			|| fn instanceof DensityFunction.EndIslands
+		const node = new ProfiledFunction(this.nodes.length, labelOf(fn), fn, children, usesY(fn, children), noise)
+		this.nodes.push(node)
+		return node
+	}
+}
+
+function childrenOf(fn: DensityFunction): DensityFunction[] {
+	if (fn instanceof DensityFunction.Ap2) {
+		return [fn.argument1, fn.argument2]
+	}
+	if (fn instanceof DensityFunction.RangeChoice) {
+		return [fn.input, fn.whenInRange, fn.whenOutOfRange]
+	}
+	if (fn instanceof DensityFunction.ShiftedNoise) {
+		return [fn.shiftX, fn.shiftY, fn.shiftZ]
+	}
+	if (fn instanceof DensityFunction.Spline) {
+		const coordinates: DensityFunction[] = []
+		const visit = (spline: unknown) => {
+			if (spline instanceof CubicSpline.MultiPoint) {
+				if (spline.coordinate instanceof DensityFunction) {
+					coordinates.push(spline.coordinate)
+				}
+				spline.values.forEach(visit)
+			}
+		}
+		visit(fn.spline)
+		return coordinates
+	}
+	if ('input' in fn && fn.input instanceof DensityFunction) {
+		return [fn.input]
+	}
+	// The wrapped function of cache markers and interpolated isn't public
+	const wrapped = (fn as unknown as { wrapped?: unknown }).wrapped
+	if (wrapped instanceof DensityFunction) {
+		return [wrapped]
+	}
+	return []
+}
+
+function labelOf(fn: DensityFunction): string {
+	const noise = (name: string, noiseData: { key(): { toString(): string } | undefined }) => {
+		const key = noiseData.key()
+		return key ? `${name} ${key.toString()}` : name
+	}
+	if (fn instanceof DensityFunction.Ap2) return fn.type
+	if (fn instanceof DensityFunction.Mapped) return fn.type
+	if (fn instanceof DensityFunction.Clamp) return 'clamp'
+	if (fn instanceof DensityFunction.Constant) return `constant ${fn.minValue()}`
+	if (fn instanceof DensityFunction.ShiftedNoise) return noise('shifted_noise', fn.noiseData)
+	if (fn instanceof DensityFunction.Noise) return noise('noise', fn.noiseData)
+	if (fn instanceof DensityFunction.WeirdScaledSampler) return noise('weird_scaled_sampler', fn.noiseData)
+	if (fn instanceof DensityFunction.ShiftA) return noise('shift_a', fn.noiseData)
+	if (fn instanceof DensityFunction.ShiftB) return noise('shift_b', fn.noiseData)
+	if (fn instanceof DensityFunction.Shift) return noise('shift', fn.noiseData)
+	if (fn instanceof DensityFunction.FlatCache) return 'flat_cache'
+	if (fn instanceof DensityFunction.Cache2D) return 'cache_2d'
+	if (fn instanceof DensityFunction.CacheOnce) return 'cache_once'
+	if (fn instanceof DensityFunction.CacheAllInCell) return 'cache_all_in_cell'
+	if (fn instanceof DensityFunction.Interpolated) return 'interpolated'
+	if (fn instanceof DensityFunction.RangeChoice) return 'range_choice'
+	if (fn instanceof DensityFunction.Spline) return 'spline'
+	if (fn instanceof DensityFunction.YClampedGradient) return 'y_clamped_gradient'
+	if (fn instanceof DensityFunction.OldBlendedNoise) return 'old_blended_noise'
+	if (fn instanceof DensityFunction.EndIslands) return 'end_islands'
+	if (fn instanceof DensityFunction.BlendDensity) return 'blend_density'
+	return fn.constructor.name
+}
+
+/**
+ * @returns Whether the value of `fn` can change along the Y axis.
+ */
+function usesY(fn: DensityFunction, children: ProfiledFunction[]) {
+	if (fn instanceof DensityFunction.Constant || fn instanceof DensityFunction.EndIslands
+		|| fn instanceof DensityFunction.ShiftA || fn instanceof DensityFunction.ShiftB
+		|| fn instanceof DensityFunction.FlatCache) {
+		return false
+	}
+	if (fn instanceof DensityFunction.YClampedGradient || fn instanceof DensityFunction.OldBlendedNoise
+		|| fn instanceof DensityFunction.WeirdScaledSampler || fn instanceof DensityFunction.Shift) {
+		return true
+	}
+	if (fn instanceof DensityFunction.Noise && fn.yScale !== 0) {
+		return true
+	}
+	return children.some(child => child.usesY)
+}
+
+/**
+ * Adds warnings to the nodes that take a large share of the time outside of the markers that
+ * reduce their evaluations: `flat_cache` and `cache_2d` for nodes that don't depend on Y, and
+ * `interpolated` for nodes that do.
+ */
+export function addProfileWarnings(report: ProfileReport) {
+	const total = report.nodes[report.root].time
+	if (total <= 0) return report
+	const share = (time: number) => Math.round(time / total * 100)
+	const visited = new Set<string>()
+	const visit = (id: number, cached2d: boolean, interpolated: boolean) => {
+		const key = `${id} ${cached2d} ${interpolated}`
+		if (visited.has(key)) return
+		visited.add(key)
+		const node = report.nodes[id]
+		const marker = node.label === 'flat_cache' || node.label === 'cache_2d'
+		if (!cached2d && !interpolated && !marker && !node.usesY && node.time >= total * WARNING_SHARE && node.label !== 'interpolated') {
+			addWarning(node, `Doesn't depend on Y and takes ${share(node.time)}% of the time, consider wrapping it in flat_cache or cache_2d`)
+			// Caching this node also caches its children
+			return
+		}
+		// The self time of other nodes is mostly the overhead of profiling their children
+		if (!interpolated && node.usesY && node.noise && node.self >= total * WARNING_SHARE) {
+			addWarning(node, `Depends on Y and takes ${share(node.self)}% of the time by itself, consider wrapping it in interpolated`)
+		}
+		node.children.forEach(child => visit(child, cached2d || marker, interpolated || node.label === 'interpolated'))
+	}
+	visit(report.root, false, false)
+	return report
+}
+
+function addWarning(node: ProfileNode, warning: string) {
+	if (!node.warnings.includes(warning)) {
+		node.warnings.push(warning)
+	}
+}
+
+/**
+ * Larger regions are sampled with a step between samples.
+ */
+const MAX_PROFILE_SAMPLES = 128
+
+/**
+ * Rows between progress updates, yielding to other work in the worker.
+ */
+const ROWS_PER_UPDATE = 8
+
+/**
+ * Evaluates the samples of a region row by row.
+ * @param onProgress Called with the fraction of the rows that are done.
+ */
+export async function profileRegion(profiler: SampleProfiler, region: ValueRegion, onProgress: (progress: number) => void, isCancelled: () => boolean) {
+	const step = Math.max(1, Math.ceil(Math.max(region.width, region.height) / MAX_PROFILE_SAMPLES))
+	const rows = Math.ceil(region.height / step)
+	for (let row = 0; row < rows; row += 1) {
+		const v = Math.floor(region.v) + row * step
+		for (let u = Math.floor(region.u); u < region.u + region.width; u += step) {
+			profiler.sample(u, v)
+		}
+		if (row % ROWS_PER_UPDATE === ROWS_PER_UPDATE - 1) {
+			onProgress((row + 1) / rows)
+			await new Promise(resolve => setTimeout(resolve))
+			if (isCancelled()) {
+				throw new Error('Cancelled')
+			}
+		}
+	}
+	return addProfileWarnings(profiler.report(step))
+}
@@ -0,0 +1,100 @@
+import { HolderSet, Identifier, Registry, WorldgenRegistries } from 'deepslate'
+import { ResourceError } from './errors'
+import { digestString } from './util'
+
+/**
+ * Registries that deepslate doesn't define itself. Their entries are kept as raw JSON.
+ */
+export const ParameterListRegistry = Registry.createAndRegister<unknown>('worldgen/multi_noise_biome_source_parameter_list', obj => obj)
+export const WorldPresetRegistry = Registry.createAndRegister<unknown>('worldgen/world_preset', obj => obj)
+
+/**
+ * Registries whose entries can change the values computed by a sampler.
+ */
+const DEPENDENCY_KEYS = [
+	'worldgen/density_function',
+	'worldgen/noise',
+	'worldgen/noise_settings',
+	'worldgen/multi_noise_biome_source_parameter_list',
+]
+
+let loadedData: Record<string, Record<string, string>> = {}
+
+/**
+ * Replaces the contents of every registry and its tags with the entries in `data`.
+ * Entries are only parsed when they are first accessed, failures are thrown as a {@link ResourceError}.
+ * Biomes are kept as raw JSON, deepslate only needs to know which ones exist.
+ */
+export function loadRegistries(data: Record<string, Record<string, string>>) {
+	loadedData = data
+	Registry.REGISTRY.forEach((key, registry) => {
+		registry.clear()
+		const parse = registry === WorldgenRegistries.BIOME ? (obj: unknown) => obj : (obj: unknown) => registry.parse(obj)
+		Object.entries(data[key.path] ?? {}).forEach(([id, value]) => {
+			registry.register(Identifier.parse(id), lazyParse(key.path, id, value, parse))
+		})
+		const tags = data[`tags/${key.path}`]
+		if (tags) {
+			const tagRegistry = registry.getTagRegistry()
+			Object.entries(tags).forEach(([id, value]) => {
+				const identifier = Identifier.parse(id)
+				tagRegistry.register(identifier, lazyParse(`tags/${key.path}`, id, value, obj => HolderSet.fromJson(registry, obj, identifier)))
+			})
+		}
+	})
+}
+
+function lazyParse<T>(key: string, identifier: string, value: string, parse: (obj: unknown) => T) {
+	return () => {
+		try {
+			return parse(JSON.parse(value))
+		} catch (e) {
+			throw e instanceof ResourceError ? e : new ResourceError(key, identifier, e)
+		}
+	}
+}
+
+/**
+ * @returns The unparsed JSON of a loaded resource.
+ */
+export function getResourceContent(key: string, identifier: string): string | undefined {
+	return loadedData[key]?.[identifier]
+}
+
+/**
+ * Contents up to this length are used as the key itself instead of their hash.
+ */
+const MAX_UNHASHED_LENGTH = 1024
+
+/**
+ * @returns A key of `json` and the contents of every resource it references, directly or
+ * through other resources. Any string that is the ID of a loaded resource counts as a reference.
+ */
+export function getContentHash(json: unknown) {
+	const visited = new Set<string>()
+	const parts = [JSON.stringify(json)]
+	const visit = (value: unknown) => {
+		if (typeof value === 'string') {
+			const id = value.includes(':') ? value : `minecraft:${value}`
+			for (const key of DEPENDENCY_KEYS) {
+				const content = loadedData[key]?.[id]
+				if (content === undefined || visited.has(`${key} ${id}`)) continue
+				visited.add(`${key} ${id}`)
+				parts.push(key, id, content)
+				try {
+					visit(JSON.parse(content))
+				} catch (e) {
+					// The content is part of the hash regardless
+				}
+			}
+		} else if (Array.isArray(value)) {
+			value.forEach(visit)
+		} else if (typeof value === 'object' && value !== null) {
+			Object.values(value).forEach(visit)
+		}
+	}
+	visit(json)
+	const content = parts.join('\n')
+	// Cached samples are reused for the same key, a collision would show the samples of other content
+	return content.length <= MAX_UNHASHED_LENGTH ? content : `${digestString(content)}-${content.length}`
+}
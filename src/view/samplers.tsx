@@ -1,15 +1,76 @@
-import { BiomeSource, clampedMap, computeIfAbsent, DensityFunction, Identifier, Json, NoiseChunkGenerator, NoiseGeneratorSettings, NoiseParameters, NoiseRouter, NormalNoise, RandomState, WorldgenRegistries, XoroshiroRandom } from 'deepslate'
+import { BiomeSource, BlockPos, BlockState, Chunk, ChunkPos, clampedMap, computeIfAbsent, DensityFunction, FixedBiomeSource, Identifier, Json, NoiseChunkGenerator, NoiseGeneratorSettings, NoiseParameters, NoiseRouter, NoiseSettings, NormalNoise, RandomState, WorldgenRegistries, XoroshiroRandom } from 'deepslate'
 import type { JSX } from 'preact'
-import { h } from 'preact'
+import { Fragment, h } from 'preact'
+import type { Slice } from '../shared'
+import type { SampleCache } from './cache'
+import { SAMPLE_CACHES } from './cache'
 import type { Color } from './colormap'
-import { viridis } from './colormap'
-import { hashString } from './util'
+import { COLORMAPS, terrain } from './colormap'
+import type { Inspection } from './inspector'
+import { DensityFunctionInspector } from './inspector'
+import type { SampleProfiler } from './profiler'
+import { DensityFunctionProfiler } from './profiler'
+import { getContentHash, ParameterListRegistry } from './registries'
+import { axisSlice, hashString, outFromOrigin, sliceToWorld, spiralAround } from './util'
 
+/**
+ * Samplers are also created inside the render workers, so they must not use the DOM outside of `renderConfig`.
+ */
 export interface Sampler {
-	sampleColor(x: number, y: number): Color
+	/**
+	 * @param scale The size of a pixel in blocks.
+	 */
+	sampleColor(x: number, y: number, scale?: number): Color
 	sampleText(x: number, y: number): string
+	/**
+	 * @returns The numeric value at this position, for samplers that have one.
+	 */
+	sampleValue?(x: number, y: number): number
 	renderConfig?(onChange: (value: unknown) => void): JSX.Element
 	setConfig?(value: unknown): void
+	setSlice?(slice: Slice): void
+	/**
+	 * @returns The slice to switch to when the current layer is selected while viewing `slice`.
+	 */
+	preferredSlice?(slice: Slice): Slice
+	renderLegend?(): JSX.Element
+	/**
+	 * Draws the same legend as `renderLegend` for exported images, in a box of `width` by {@link LEGEND_HEIGHT}.
+	 */
+	drawLegend?(ctx: CanvasRenderingContext2D, width: number): void
+	/**
+	 * @returns The range of the values that were converted to colors since the last call.
+	 */
+	takeRange?(): [number, number] | undefined
+	/**
+	 * @returns A new config that fits the colors to the values in `range`,
+	 * or `undefined` when automatic ranges are disabled or the range didn't change.
+	 */
+	fitRange?(range: [number, number]): unknown
+	/**
+	 * Searches outward from `origin` for the closest biome matching `query`, a biome ID or `#`-prefixed tag.
+	 * @returns `undefined` when there is no such biome within the search radius.
+	 */
+	locate?(query: string, origin: [number, number, number]): LocateResult | undefined
+	/**
+	 * @returns The biome at the block position, independent of the slice.
+	 */
+	biome?(x: number, y: number, z: number): string
+	/**
+	 * @returns A profiler that evaluates the same values on an instrumented copy of the density function.
+	 */
+	profile?(): SampleProfiler
+	/**
+	 * @returns The value of every node of the density function at a position in the slice.
+	 */
+	inspect?(x: number, y: number): Inspection
+}
+
+export const LEGEND_HEIGHT = 36
+
+export type LocateResult = {
+	biome: string,
+	pos: [number, number, number],
 }
 
 export class EmptySampler implements Sampler {
@@ -22,24 +83,45 @@ export class EmptySampler implements Sampler {
 	}
 }
 
+/**
+ * Caches samples in a cache shared with every sampler that has the same `cacheKey`,
+ * which should describe everything the samples depend on.
+ */
 export abstract class CacheableSampler<D> implements Sampler {
-	private readonly cache = new Map<string, D>()
+	private cache: SampleCache<D>
+	protected slice: Slice = { axis: 'xy', coord: 0 }
 
-	protected abstract sample(x: number, y: number): D
+	constructor(protected readonly cacheKey: string) {
+		this.cache = this.getCache()
+	}
+
+	protected abstract sample(x: number, y: number, z: number): D
 	protected abstract asColor(d: D): Color
 	protected abstract asText(d: D): string
 
-	protected translate(x: number, y: number): { x: number, y: number } {
-		return { x, y }
+	protected translate(x: number, y: number, z: number): { x: number, y: number, z: number } {
+		return { x, y, z }
+	}
+
+	private getCache() {
+		return SAMPLE_CACHES.get<D>(`${this.cacheKey} ${this.slice.axis} ${this.slice.coord}`)
 	}
 
-	private cachedSample(x: number, y: number) {
-		const { x: xx, y: yy } = this.translate(x, y)
-		return computeIfAbsent(this.cache, `${xx} ${yy}`, () => {
-			return this.sample(xx, yy)
+	protected cachedSample(u: number, v: number) {
+		const [x, y, z] = sliceToWorld(this.slice, u, v)
+		const { x: xx, y: yy, z: zz } = this.translate(x, y, z)
+		// The fixed coordinate of the slice is part of the cache key
+		const [cu, cv] = this.slice.axis === 'xz' ? [xx, zz] : this.slice.axis === 'xy' ? [xx, yy] : [zz, yy]
+		return this.cache.get(cu, cv, () => {
+			return this.sample(xx, yy, zz)
 		})
 	}
 
+	public setSlice(slice: Slice) {
+		this.slice = slice
+		this.cache = this.getCache()
+	}
+
 	public sampleColor(x: number, y: number) {
 		return this.asColor(this.cachedSample(x, y))
 	}
@@ -53,6 +135,7 @@ export class LayeredSampler implements Sampler {
 	private readonly layerNames: string[]
 	private currentLayer: string
 	private currentDelegate: Sampler
+	private configs: Record<string, unknown> = {}
 
 	constructor(private readonly layers: Record<string, Sampler>) {
 		this.layerNames = Object.keys(layers)
@@ -60,88 +143,526 @@ export class LayeredSampler implements Sampler {
 		this.currentDelegate = layers[this.currentLayer]
 	}
 
-	public sampleColor(x: number, y: number) {
-		return this.currentDelegate.sampleColor(x, y)
+	public sampleColor(x: number, y: number, scale?: number) {
+		return this.currentDelegate.sampleColor(x, y, scale)
 	}
 
 	public sampleText(x: number, y: number) {
 		return this.currentDelegate.sampleText(x, y)
 	}
 
+	public sampleValue(x: number, y: number) {
+		return this.currentDelegate.sampleValue?.(x, y) ?? NaN
+	}
+
+	public setSlice(slice: Slice) {
+		Object.values(this.layers).forEach(layer => layer.setSlice?.(slice))
+	}
+
+	public preferredSlice(slice: Slice) {
+		return this.currentDelegate.preferredSlice?.(slice) ?? slice
+	}
+
+	public renderLegend() {
+		return this.currentDelegate.renderLegend?.() ?? <></>
+	}
+
+	/**
+	 * Only defined when the current layer has a legend.
+	 */
+	public get drawLegend() {
+		const delegate = this.currentDelegate
+		return delegate.drawLegend && ((ctx: CanvasRenderingContext2D, width: number) => delegate.drawLegend!(ctx, width))
+	}
+
+	public takeRange() {
+		return this.currentDelegate.takeRange?.()
+	}
+
+	public locate(query: string, origin: [number, number, number]) {
+		return this.biomeLayer().locate!(query, origin)
+	}
+
+	public biome(x: number, y: number, z: number) {
+		return this.biomeLayer().biome!(x, y, z)
+	}
+
+	/**
+	 * Only defined when the current layer can be profiled.
+	 */
+	public get profile() {
+		const delegate = this.currentDelegate
+		return delegate.profile && (() => delegate.profile!())
+	}
+
+	/**
+	 * Only defined when the current layer can be inspected.
+	 */
+	public get inspect() {
+		const delegate = this.currentDelegate
+		return delegate.inspect && ((x: number, y: number) => delegate.inspect!(x, y))
+	}
+
+	/**
+	 * Biomes are available while looking at any of the layers.
+	 */
+	private biomeLayer() {
+		const layer = Object.values(this.layers).find(layer => layer.biome)
+		if (!layer) {
+			throw new Error('This preview has no biomes')
+		}
+		return layer
+	}
+
+	public fitRange(range: [number, number]) {
+		const config = this.currentDelegate.fitRange?.(range)
+		if (config === undefined) return undefined
+		return { layer: this.currentLayer, configs: { ...this.configs, [this.currentLayer]: config } }
+	}
+
+	/**
+	 * @param value Either the name of a layer, or the name of a layer together with the configs of each layer.
+	 */
 	public setConfig(value: unknown) {
-		if (typeof value === 'string' && this.layerNames.includes(value)) {
-			this.currentLayer = value
-			this.currentDelegate = this.layers[value]
+		const root = Json.readObject(value)
+		const layer = root ? Json.readString(root.layer) : value
+		if (root) {
+			this.configs = Json.readObject(root.configs) ?? {}
+			Object.entries(this.configs).forEach(([name, config]) => {
+				this.layers[name]?.setConfig?.(config)
+			})
+		}
+		if (typeof layer === 'string' && this.layerNames.includes(layer)) {
+			this.currentLayer = layer
+			this.currentDelegate = this.layers[layer]
 		}
 	}
 
 	public renderConfig(onChange: (value: unknown) => void) {
-		return <div class="layer-group">
-			<div class="layer-select" tabIndex={0}>{this.currentLayer}</div>
-			<div class="layer-options">
-				{this.layerNames.map(layer =>
-					<div class="layer-option" onMouseDown={() => onChange(layer)}>{layer}</div>
-				)}
+		const changeLayer = (layer: string) => {
+			onChange({ layer, configs: this.configs })
+		}
+		const changeLayerConfig = (config: unknown) => {
+			onChange({ layer: this.currentLayer, configs: { ...this.configs, [this.currentLayer]: config } })
+		}
+		return <>
+			<div class="layer-group">
+				<div class="layer-select" tabIndex={0}>{this.currentLayer}</div>
+				<div class="layer-options">
+					{this.layerNames.map(layer =>
+						<div class="layer-option" onMouseDown={() => changeLayer(layer)}>{layer}</div>
+					)}
+				</div>
 			</div>
-		</div>
+			{this.currentDelegate.renderConfig?.(changeLayerConfig)}
+		</>
 	}
 }
 
-export class NoiseSampler extends CacheableSampler<number> {
-	constructor(private readonly noise: NormalNoise) {
-		super()
+const AIR_COLOR: Color = [0.6, 0.78, 0.95]
+const SOLID_COLOR: Color = [0.45, 0.45, 0.45]
+const ISOLINE_COLOR: Color = [1, 1, 1]
+
+type ColorConfig = {
+	colormap: string,
+	reverse: boolean,
+	/**
+	 * When enabled, `min` and `max` follow the values that are on screen.
+	 */
+	auto: boolean,
+	min: number,
+	max: number,
+	/**
+	 * Draws lines where the values cross one of the `levels`.
+	 */
+	isolines: boolean,
+	/**
+	 * Shows values above the first of the `levels` as solid and the others as air, instead of using the colormap.
+	 */
+	threshold: boolean,
+	levels: number[],
+}
+
+const DEFAULT_COLOR_CONFIG: ColorConfig = {
+	colormap: 'viridis',
+	reverse: false,
+	auto: false,
+	min: -1,
+	max: 1,
+	isolines: false,
+	threshold: false,
+	levels: [0],
+}
+
+/**
+ * Maps numbers to a colormap, within a manual or automatic range.
+ */
+export abstract class NumericSampler extends CacheableSampler<number> {
+	protected config: ColorConfig
+	private range: [number, number] | undefined
+
+	constructor(
+		cacheKey: string,
+		private readonly defaultConfig: ColorConfig = DEFAULT_COLOR_CONFIG,
+	) {
+		super(cacheKey)
+		this.config = defaultConfig
 	}
 
-	sample(x: number, y: number) {
-		return this.noise.sample(x, y, 0)
+	/**
+	 * @returns The position of `n` on the colormap.
+	 */
+	protected position(n: number) {
+		const { reverse, min, max } = this.config
+		return clampedMap(n, min, max, reverse ? 1 : 0, reverse ? 0 : 1)
 	}
 
 	asColor(n: number) {
-		return viridis(clampedMap(n, -1, 1, 0, 1))
+		if (this.range === undefined) {
+			this.range = [n, n]
+		} else if (n < this.range[0]) {
+			this.range[0] = n
+		} else if (n > this.range[1]) {
+			this.range[1] = n
+		}
+		if (this.config.threshold) {
+			return n > this.config.levels[0] ? SOLID_COLOR : AIR_COLOR
+		}
+		const colormap = COLORMAPS[this.config.colormap] ?? COLORMAPS.viridis
+		return colormap(this.position(n))
 	}
 
 	asText(n: number) {
 		return n.toPrecision(3)
-	} 
+	}
+
+	public sampleValue(x: number, y: number) {
+		return this.cachedSample(x, y)
+	}
+
+	/**
+	 * Compares each value with its neighbors one pixel further, so that isolines stay
+	 * one pixel wide at every zoom level.
+	 */
+	public sampleColor(x: number, y: number, scale = 1) {
+		const n = this.cachedSample(x, y)
+		const { isolines, levels } = this.config
+		if (isolines && levels.length > 0) {
+			const d = Math.max(1, Math.floor(scale))
+			const right = this.cachedSample(x + d, y)
+			const below = this.cachedSample(x, y - d)
+			if (levels.some(l => (n > l) !== (right > l) || (n > l) !== (below > l))) {
+				return ISOLINE_COLOR
+			}
+		}
+		return this.asColor(n)
+	}
+
+	takeRange() {
+		const range = this.range
+		this.range = undefined
+		return range
+	}
+
+	fitRange([min, max]: [number, number]): unknown {
+		if (!this.config.auto || !isFinite(min) || !isFinite(max)) return undefined
+		const round = (n: number) => Number(n.toPrecision(3))
+		if (round(min) === this.config.min && round(max) === this.config.max) return undefined
+		return { ...this.config, min: round(min), max: round(max) }
+	}
+
+	setConfig(value: unknown) {
+		const root = Json.readObject(value) ?? {}
+		this.config = {
+			colormap: Json.readString(root.colormap) ?? this.defaultConfig.colormap,
+			reverse: Json.readBoolean(root.reverse) ?? this.defaultConfig.reverse,
+			auto: Json.readBoolean(root.auto) ?? this.defaultConfig.auto,
+			min: Json.readNumber(root.min) ?? this.defaultConfig.min,
+			max: Json.readNumber(root.max) ?? this.defaultConfig.max,
+			isolines: Json.readBoolean(root.isolines) ?? this.defaultConfig.isolines,
+			threshold: Json.readBoolean(root.threshold) ?? this.defaultConfig.threshold,
+			levels: Json.readArray(root.levels, e => Json.readNumber(e))?.flatMap(e => e === undefined ? [] : [e]) ?? this.defaultConfig.levels,
+		}
+	}
+
+	renderConfig(onChange: (value: unknown) => void) {
+		const change = (config: Partial<ColorConfig>) => onChange({ ...this.config, ...config })
+		const changeNumber = (key: 'min' | 'max', value: string) => {
+			const n = parseFloat(value)
+			if (!isNaN(n)) change({ [key]: n })
+		}
+		const changeLevels = (value: string) => {
+			const levels = value.split(',').map(parseFloat).filter(n => !isNaN(n))
+			change({ levels: levels.length > 0 ? levels : [0] })
+		}
+		return <>
+			<div class="color-config">
+				<select value={this.config.colormap} onChange={e => change({ colormap: (e.target as HTMLSelectElement).value })}>
+					{Object.keys(COLORMAPS).map(name => <option value={name}>{name}</option>)}
+				</select>
+				<label>
+					<input type="checkbox" checked={this.config.reverse} onChange={e => change({ reverse: (e.target as HTMLInputElement).checked })} />
+					Reverse
+				</label>
+				<label>
+					<input type="checkbox" checked={this.config.auto} onChange={e => change({ auto: (e.target as HTMLInputElement).checked })} />
+					Auto range
+				</label>
+				<input type="number" step="any" value={this.config.min} disabled={this.config.auto} onChange={e => changeNumber('min', (e.target as HTMLInputElement).value)} />
+				<input type="number" step="any" value={this.config.max} disabled={this.config.auto} onChange={e => changeNumber('max', (e.target as HTMLInputElement).value)} />
+			</div>
+			<div class="color-config">
+				<label>
+					<input type="checkbox" checked={this.config.isolines} onChange={e => change({ isolines: (e.target as HTMLInputElement).checked })} />
+					Isolines
+				</label>
+				<label>
+					<input type="checkbox" checked={this.config.threshold} onChange={e => change({ threshold: (e.target as HTMLInputElement).checked })} />
+					Solid/air
+				</label>
+				<label>Levels</label>
+				<input type="text" class="levels-input" value={this.config.levels.join(', ')} onChange={e => changeLevels((e.target as HTMLInputElement).value)} />
+			</div>
+		</>
+	}
+
+	renderLegend() {
+		const { min, max, threshold, isolines, levels } = this.config
+		const rgb = ([r, g, b]: Color) => `rgb(${r * 255}, ${g * 255}, ${b * 255})`
+		if (threshold) {
+			return <div class="legend">
+				<div class="legend-labels">
+					<span><span class="legend-swatch" style={{ background: rgb(AIR_COLOR) }}></span>air ≤ {levels[0]}</span>
+					<span><span class="legend-swatch" style={{ background: rgb(SOLID_COLOR) }}></span>solid &gt; {levels[0]}</span>
+				</div>
+			</div>
+		}
+		const colormap = COLORMAPS[this.config.colormap] ?? COLORMAPS.viridis
+		const stops = [...Array(17)].map((_, i) => {
+			return `${rgb(colormap(this.position(min + (max - min) * i / 16)))} ${i * 100 / 16}%`
+		})
+		return <div class="legend">
+			<div class="legend-gradient" style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }}>
+				{isolines && levels.filter(l => l >= min && l <= max).map(l =>
+					<div class="legend-level" style={{ left: `${(l - min) / (max - min) * 100}%` }}></div>
+				)}
+			</div>
+			<div class="legend-labels">
+				<span>{min}</span>
+				<span>{Number(((min + max) / 2).toPrecision(3))}</span>
+				<span>{max}</span>
+			</div>
+		</div>
+	}
+
+	drawLegend(ctx: CanvasRenderingContext2D, width: number) {
+		const { min, max, threshold, isolines, levels } = this.config
+		const rgb = ([r, g, b]: Color) => `rgb(${r * 255}, ${g * 255}, ${b * 255})`
+		const [left, right] = [6, width - 6]
+		ctx.font = '12px sans-serif'
+		ctx.textBaseline = 'top'
+		if (threshold) {
+			const labels: Array<[Color, string]> = [[AIR_COLOR, `air ≤ ${levels[0]}`], [SOLID_COLOR, `solid > ${levels[0]}`]]
+			labels.forEach(([color, label], i) => {
+				const x = i === 0 ? left : right - 16 - ctx.measureText(label).width
+				ctx.fillStyle = rgb(color)
+				ctx.fillRect(x, 12, 12, 12)
+				ctx.fillStyle = '#fff'
+				ctx.fillText(label, x + 16, 12)
+			})
+			return
+		}
+		const colormap = COLORMAPS[this.config.colormap] ?? COLORMAPS.viridis
+		for (let x = left; x < right; x += 1) {
+			ctx.fillStyle = rgb(colormap(this.position(min + (max - min) * (x - left) / (right - left))))
+			ctx.fillRect(x, 6, 1, 12)
+		}
+		if (isolines) {
+			ctx.fillStyle = rgb(ISOLINE_COLOR)
+			levels.filter(l => l >= min && l <= max).forEach(l => {
+				ctx.fillRect(Math.round(left + (l - min) / (max - min) * (right - left)), 4, 1, 16)
+			})
+		}
+		ctx.fillStyle = '#fff'
+		const labels = [min, Number(((min + max) / 2).toPrecision(3)), max]
+		labels.forEach((label, i) => {
+			ctx.textAlign = i === 0 ? 'left' : i === 1 ? 'center' : 'right'
+			ctx.fillText(`${label}`, i === 0 ? left : i === 1 ? width / 2 : right, 21)
+		})
+		ctx.textAlign = 'left'
+	}
 }
 
-export class DensityFunctionSampler extends CacheableSampler<number> {
-	constructor(private readonly fn: DensityFunction) {
-		super()
+const DIFFERENT_COLOR: Color = [1, 0, 1]
+
+/**
+ * Signed difference between the values of two samplers. Samplers without
+ * numeric values are compared by their text, showing where they differ.
+ */
+export class DiffSampler extends NumericSampler {
+	private static nextId = 0
+	private delegateConfig: unknown
+
+	constructor(
+		private readonly current: Sampler,
+		private readonly baseline: Sampler,
+	) {
+		super(`diff ${DiffSampler.nextId++}`, { ...DEFAULT_COLOR_CONFIG, colormap: 'blue-red', auto: true })
 	}
 
-	sample(x: number, y: number) {
-		return this.fn.compute({ x, y, z: 0 })
+	sample(x: number, y: number, z: number) {
+		const [u, v] = this.slice.axis === 'xz' ? [x, z] : this.slice.axis === 'xy' ? [x, y] : [z, y]
+		const a = this.current.sampleValue?.(u, v)
+		const b = this.baseline.sampleValue?.(u, v)
+		if (a !== undefined && b !== undefined && !isNaN(a) && !isNaN(b)) {
+			return a - b
+		}
+		return this.current.sampleText(u, v) === this.baseline.sampleText(u, v) ? 0 : NaN
 	}
 
 	asColor(n: number) {
-		const clamped = clampedMap(n, -1, 1, 1, 0)
-		return viridis(clamped <= 0.5 ? clamped - 0.05 : clamped + 0.05)
+		return isNaN(n) ? DIFFERENT_COLOR : super.asColor(n)
 	}
 
 	asText(n: number) {
-		return n.toPrecision(3)
+		return isNaN(n) ? 'different' : `${n > 0 ? '+' : ''}${n.toPrecision(3)}`
+	}
+
+	public sampleText(x: number, y: number) {
+		return `${this.current.sampleText(x, y)} vs ${this.baseline.sampleText(x, y)} (${super.sampleText(x, y)})`
+	}
+
+	public setSlice(slice: Slice) {
+		super.setSlice(slice)
+		this.current.setSlice?.(slice)
+		this.baseline.setSlice?.(slice)
+	}
+
+	public preferredSlice(slice: Slice) {
+		return this.current.preferredSlice?.(slice) ?? slice
+	}
+
+	/**
+	 * @param value The config of the compared samplers, with the config of the difference in `diff`.
+	 */
+	public setConfig(value: unknown) {
+		this.delegateConfig = value
+		this.current.setConfig?.(value)
+		this.baseline.setConfig?.(value)
+		super.setConfig(Json.readObject(value)?.diff)
+	}
+
+	/**
+	 * Keeps the range centered on zero, so that the sign of the difference stays recognizable.
+	 */
+	public fitRange([min, max]: [number, number]): unknown {
+		const r = Math.max(Math.abs(min), Math.abs(max))
+		const diff = super.fitRange([-r, r])
+		if (diff === undefined) return undefined
+		return { ...Json.readObject(this.delegateConfig), diff }
+	}
+
+	renderConfig(onChange: (value: unknown) => void) {
+		return <>
+			{this.current.renderConfig?.(config => onChange({ ...Json.readObject(config), diff: this.config }))}
+			<div class="config-label">Difference</div>
+			{super.renderConfig(diff => onChange({ ...Json.readObject(this.delegateConfig), diff }))}
+		</>
+	}
+}
+
+export class NoiseSampler extends NumericSampler {
+	constructor(
+		private readonly noise: NormalNoise,
+		cacheKey: string,
+	) {
+		super(cacheKey)
+	}
+
+	sample(x: number, y: number, z: number) {
+		return this.noise.sample(x, y, z)
+	}
+}
+
+export class DensityFunctionSampler extends NumericSampler {
+	private inspector: DensityFunctionInspector | undefined
+
+	constructor(
+		private readonly fn: DensityFunction,
+		cacheKey: string,
+		private readonly createProfiler: () => DensityFunctionProfiler,
+		private readonly createInspector: () => DensityFunctionInspector,
+	) {
+		// Higher densities are darker, with an isoline where the density becomes solid
+		super(cacheKey, { ...DEFAULT_COLOR_CONFIG, reverse: true, isolines: true })
+	}
+
+	sample(x: number, y: number, z: number) {
+		return this.fn.compute({ x, y, z })
+	}
+
+	public profile(): SampleProfiler {
+		const profiler = this.createProfiler()
+		return {
+			sample: (u, v) => profiler.compute(...sliceToWorld(this.slice, u, v)),
+			report: step => profiler.report(step),
+		}
+	}
+
+	public inspect(x: number, y: number) {
+		this.inspector = this.inspector ?? this.createInspector()
+		return this.inspector.inspect(...sliceToWorld(this.slice, x, y))
 	}
 }
 
 export class BiomeSourceSampler extends CacheableSampler<string> {
+	// Same search as `/locate biome`
+	private static readonly LOCATE_RADIUS = 6400
+	private static readonly LOCATE_HORIZONTAL_STEP = 32
+	private static readonly LOCATE_VERTICAL_STEP = 64
+
 	constructor(
 		private readonly generator: NoiseChunkGenerator,
 		private readonly randomState: RandomState,
-		private readonly y = 64
+		private readonly noise: NoiseSettings,
+		cacheKey: string,
 	) {
-		super()
+		super(cacheKey)
+	}
+
+	locate(query: string, [originX, originY, originZ]: [number, number, number]): LocateResult | undefined {
+		const biomes = resolveBiomes(query)
+		const { LOCATE_RADIUS, LOCATE_HORIZONTAL_STEP, LOCATE_VERTICAL_STEP } = BiomeSourceSampler
+		const minY = this.noise.minY + 1
+		const maxY = this.noise.minY + this.noise.height
+		const heights = [...outFromOrigin(Math.max(minY, Math.min(maxY, originY)), minY, maxY, LOCATE_VERTICAL_STEP)]
+		for (const [dx, dz] of spiralAround(Math.floor(LOCATE_RADIUS / LOCATE_HORIZONTAL_STEP))) {
+			const x = originX + dx * LOCATE_HORIZONTAL_STEP
+			const z = originZ + dz * LOCATE_HORIZONTAL_STEP
+			for (const y of heights) {
+				const biome = this.biome(x, y, z)
+				if (biomes.has(biome)) {
+					return { biome, pos: [x, y, z] }
+				}
+			}
+		}
+		return undefined
 	}
 
-	translate(x: number, y: number) {
+	translate(x: number, y: number, z: number) {
 		return {
 			x: x >> 2,
 			y: y >> 2,
+			z: z >> 2,
 		}
 	}
 
-	sample(x: number, z: number) {
-		return this.generator.computeBiome(this.randomState, x, this.y, z).toString()
+	sample(x: number, y: number, z: number) {
+		return this.generator.computeBiome(this.randomState, x, y, z).toString()
+	}
+
+	biome(x: number, y: number, z: number) {
+		return this.sample(x >> 2, y >> 2, z >> 2)
 	}
 
 	asColor(n: string): Color {
@@ -156,35 +677,197 @@ export class BiomeSourceSampler extends CacheableSampler<string> {
 	}
 }
 
-export class BiomeParameterSampler extends CacheableSampler<number> {
+export class BiomeParameterSampler extends NumericSampler {
 	constructor(
 		private readonly df: DensityFunction,
-		private readonly y = 64
+		cacheKey: string,
 	) {
-		super()
+		super(cacheKey)
 	}
 
-	sample(x: number, z: number) {
-		return this.df.compute({ x, y: this.y, z })
+	sample(x: number, y: number, z: number) {
+		return this.df.compute({ x, y, z })
 	}
+}
 
-	asColor(n: number): Color {
-		const clamped = clampedMap(n, -1, 1, 0, 1)
-		return viridis(clamped)
+/**
+ * Blocks of the terrain before surface rules are applied.
+ */
+export class TerrainSampler extends CacheableSampler<BlockState | undefined> {
+	private static readonly MAX_CHUNKS = 64
+	private readonly chunks = new Map<number, Chunk>()
+
+	constructor(
+		private readonly generator: NoiseChunkGenerator,
+		private readonly randomState: RandomState,
+		private readonly settings: NoiseGeneratorSettings,
+		cacheKey: string,
+	) {
+		super(cacheKey)
 	}
 
-	asText(n: number) {
-		return n.toPrecision(3)
+	sample(x: number, y: number, z: number) {
+		const { minY, height } = this.settings.noise
+		if (y < minY || y >= minY + height) {
+			return undefined
+		}
+		const chunk = computeIfAbsent(this.chunks, (x >> 4) * 0x4000000 + (z >> 4), () => {
+			if (this.chunks.size >= TerrainSampler.MAX_CHUNKS) {
+				this.chunks.delete(this.chunks.keys().next().value)
+			}
+			const chunk = new Chunk(minY, height, ChunkPos.create(x >> 4, z >> 4))
+			// Only the first row needs to be filled when the slice is aligned with the chunk
+			const onlyFirstZ = this.slice.axis === 'xy' && (this.slice.coord & 0xF) === 0
+			this.generator.fill(this.randomState, chunk, onlyFirstZ)
+			return chunk
+		})
+		return chunk.getBlockState(BlockPos.create(x, y, z))
+	}
+
+	asColor(state: BlockState | undefined): Color {
+		if (state === undefined) {
+			return [0, 0, 0]
+		} else if (state.is(BlockState.AIR)) {
+			return AIR_COLOR
+		} else if (state.is(BlockState.LAVA)) {
+			return [0.9, 0.35, 0.05]
+		} else if (state.is(BlockState.WATER) || state.equals(this.settings.defaultFluid)) {
+			return [0.2, 0.35, 0.85]
+		} else if (state.equals(this.settings.defaultBlock)) {
+			return SOLID_COLOR
+		}
+		const h = Math.abs(hashString(state.getName().toString()))
+		return [(h % 256) / 255, ((h >> 8) % 256) / 255, ((h >> 16) % 256) / 255]
+	}
+
+	asText(state: BlockState | undefined) {
+		return state?.getName().toString() ?? 'void'
+	}
+
+	/**
+	 * Opens as a cross-section, but horizontal slices can still be picked.
+	 */
+	preferredSlice(slice: Slice) {
+		return slice.axis === 'xz' ? axisSlice('xy') : slice
+	}
+
+	setSlice(slice: Slice) {
+		super.setSlice(slice)
+		this.chunks.clear()
+	}
+}
+
+type SurfaceColumn = {
+	height: number | undefined,
+	shade: number,
+}
+
+/**
+ * Top-down map of the highest solid block in each column, with hillshading.
+ */
+export class SurfaceHeightSampler extends CacheableSampler<SurfaceColumn> {
+	private readonly heights: SampleCache<number | undefined>
+	private water = true
+
+	constructor(
+		private readonly finalDensity: DensityFunction,
+		private readonly settings: NoiseGeneratorSettings,
+		cacheKey: string,
+	) {
+		super(cacheKey)
+		this.heights = SAMPLE_CACHES.get(`${cacheKey} heights`)
+		this.setSlice()
+	}
+
+	/**
+	 * Steps down one noise cell at a time until the density is positive,
+	 * then finds the exact block within that cell. Solid layers that are thinner than a
+	 * cell are missed when they lie between two samples.
+	 */
+	private getHeight(x: number, z: number) {
+		return this.heights.get(x, z, () => {
+			const { minY, height } = this.settings.noise
+			const cellHeight = NoiseSettings.cellHeight(this.settings.noise)
+			const maxY = minY + height - 1
+			for (let y = maxY; y >= minY; y -= cellHeight) {
+				if (this.finalDensity.compute({ x, y, z }) > 0) {
+					for (let yy = Math.min(y + cellHeight - 1, maxY); yy > y; yy -= 1) {
+						if (this.finalDensity.compute({ x, y: yy, z }) > 0) {
+							return yy
+						}
+					}
+					return y
+				}
+			}
+			return undefined
+		})
+	}
+
+	sample(x: number, _y: number, z: number) {
+		const height = this.getHeight(x, z)
+		if (height === undefined) {
+			return { height, shade: 1 }
+		}
+		const dx = height - (this.getHeight(x - 1, z) ?? height)
+		const dz = height - (this.getHeight(x, z - 1) ?? height)
+		// Light from negative X and Z, with the normal of the surface (-dx, 1, -dz)
+		const shade = (dx + dz + 1) / Math.sqrt(3 * (dx * dx + dz * dz + 1))
+		return { height, shade: 0.6 + 0.4 * shade }
+	}
+
+	asColor({ height, shade }: SurfaceColumn): Color {
+		if (height === undefined) {
+			return [0, 0, 0]
+		}
+		const seaLevel = this.settings.seaLevel
+		if (this.water && height < seaLevel) {
+			const depth = clampedMap(seaLevel - height, 0, 64, 0, 1)
+			return [0.2 - 0.15 * depth, 0.4 - 0.25 * depth, 0.85 - 0.35 * depth]
+		}
+		const color = terrain(clampedMap(height, seaLevel, seaLevel + 192, 0, 1))
+		return [color[0] * shade, color[1] * shade, color[2] * shade]
+	}
+
+	asText({ height }: SurfaceColumn) {
+		return height === undefined ? 'no surface' : `surface Y=${height}`
+	}
+
+	/**
+	 * The map is top-down whatever the slice is, the view is at (x, z).
+	 */
+	setSlice() {
+		super.setSlice(axisSlice('xz'))
+	}
+
+	preferredSlice(slice: Slice) {
+		return slice.axis === 'xz' ? slice : axisSlice('xz')
+	}
+
+	setConfig(value: unknown) {
+		const root = Json.readObject(value) ?? {}
+		this.water = Json.readBoolean(root.water) ?? true
+	}
+
+	renderConfig(onChange: (value: unknown) => void) {
+		return <label class="layer-toggle">
+			<input type="checkbox" checked={this.water} onChange={e => onChange({ water: (e.target as HTMLInputElement).checked })} />
+			Sea level water
+		</label>
 	}
 }
 
+/**
+ * Each sampler caches its samples under a key built from the parts of the JSON it uses and the
+ * resources they reference, so that editing unrelated resources keeps the cached samples.
+ */
 export function createSampler(fileType: string, json: unknown, seed: bigint): Sampler {
+	const cacheKey = (layer: string, input: unknown) => `${fileType} ${layer} ${seed} ${getContentHash(input)}`
 	switch (fileType) {
 		case 'worldgen/noise': {
 			const random = XoroshiroRandom.create(seed)
 			const params = NoiseParameters.fromJson(json)
 			const noise = new NormalNoise(random, params)
-			return new NoiseSampler(noise)
+			return new NoiseSampler(noise, cacheKey('noise', json))
 		}
 		case 'worldgen/density_function': {
 			const settings = NoiseGeneratorSettings.create({
@@ -194,16 +877,40 @@ export function createSampler(fileType: string, json: unknown, seed: bigint): Sa
 				}),
 			})
 			const state = new RandomState(settings, seed)
-			return new DensityFunctionSampler(state.router.finalDensity)
+			return new DensityFunctionSampler(state.router.finalDensity, cacheKey('density', json), () => {
+				return new DensityFunctionProfiler(settings.noiseRouter.finalDensity, state.createVisitor(settings.noise, false))
+			}, () => {
+				return new DensityFunctionInspector(json, [], state.createVisitor(settings.noise, false))
+			})
 		}
 		case 'worldgen/noise_settings': {
 			const settings = NoiseGeneratorSettings.fromJson(json)
 			const state = new RandomState(settings, seed)
 			const visitor = state.createVisitor(settings.noise, false)
 			const router = NoiseRouter.mapAll(settings.noiseRouter, visitor)
-			return new LayeredSampler(Object.fromEntries(Object.entries(router).map(([key, df]) => {
-				return [key, new DensityFunctionSampler(df)]
-			})))
+			const generator = new NoiseChunkGenerator(new FixedBiomeSource(Identifier.create('plains')), settings)
+			const root = Json.readObject(json) ?? {}
+			const routerJson = Json.readObject(root.noise_router) ?? {}
+			// Router functions only depend on the noise settings and random source besides themselves
+			const routerField = (key: string) => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)
+			const routerKey = (key: string) => cacheKey(key, {
+				noise: root.noise,
+				legacy_random_source: root.legacy_random_source,
+				density_function: routerJson[routerField(key)],
+			})
+			return new LayeredSampler({
+				...Object.fromEntries(Object.entries(router).map(([key, df]) => {
+					return [key, new DensityFunctionSampler(df, routerKey(key), () => {
+						const raw = settings.noiseRouter[key as keyof NoiseRouter]
+						return new DensityFunctionProfiler(raw, state.createVisitor(settings.noise, false))
+					}, () => {
+						const field = routerField(key)
+						return new DensityFunctionInspector(routerJson[field] ?? 0, ['noise_router', field], state.createVisitor(settings.noise, false))
+					})]
+				})),
+				surfaceHeight: new SurfaceHeightSampler(router.finalDensity, settings, cacheKey('surfaceHeight', json)),
+				terrain: new TerrainSampler(generator, state, settings, cacheKey('terrain', json)),
+			})
 		}
 		case 'dimension': {
 			const root = Json.readObject(json) ?? {}
@@ -212,24 +919,89 @@ export function createSampler(fileType: string, json: unknown, seed: bigint): Sa
 				? WorldgenRegistries.NOISE_SETTINGS.get(Identifier.parse(gen.settings))
 				: NoiseGeneratorSettings.fromJson(gen.settings))
 			?? NoiseGeneratorSettings.create({})
-			const biomeSource = BiomeSource.fromJson(gen.biome_source)
+			const biomeSource = biomeSourceFromJson(gen.biome_source)
 			const generator = new NoiseChunkGenerator(biomeSource, settings)
 			const randomState = new RandomState(settings, seed)
-			const y = 64
 			return new LayeredSampler({
-				biomes: new BiomeSourceSampler(generator, randomState, y),
-				temperature: new BiomeParameterSampler(randomState.router.temperature, y),
-				humidity: new BiomeParameterSampler(randomState.router.vegetation, y),
-				continentalness: new BiomeParameterSampler(randomState.router.continents, y),
-				erosion: new BiomeParameterSampler(randomState.router.erosion, y),
-				weirdness: new BiomeParameterSampler(randomState.router.ridges, y),
-				depth: new BiomeParameterSampler(randomState.router.depth, y),
+				biomes: new BiomeSourceSampler(generator, randomState, settings.noise, cacheKey('biomes', gen)),
+				temperature: new BiomeParameterSampler(randomState.router.temperature, cacheKey('temperature', gen.settings)),
+				humidity: new BiomeParameterSampler(randomState.router.vegetation, cacheKey('humidity', gen.settings)),
+				continentalness: new BiomeParameterSampler(randomState.router.continents, cacheKey('continentalness', gen.settings)),
+				erosion: new BiomeParameterSampler(randomState.router.erosion, cacheKey('erosion', gen.settings)),
+				weirdness: new BiomeParameterSampler(randomState.router.ridges, cacheKey('weirdness', gen.settings)),
+				depth: new BiomeParameterSampler(randomState.router.depth, cacheKey('depth', gen.settings)),
+				terrain: new TerrainSampler(generator, randomState, settings, cacheKey('terrain', gen.settings)),
 			})
 		}
 	}
 	return new EmptySampler()
 }
 
+/**
+ * @returns The IDs of the biome or the biomes in the tag.
+ */
+function resolveBiomes(query: string) {
+	if (query.startsWith('#')) {
+		const tag = WorldgenRegistries.BIOME.getTagRegistry().get(Identifier.parse(query.slice(1)))
+		if (!tag) {
+			throw new Error(`Unknown biome tag ${query}`)
+		}
+		return new Set([...tag.getEntries()].flatMap(holder => holder.key()?.toString() ?? []))
+	}
+	const id = Identifier.parse(query)
+	if (!WorldgenRegistries.BIOME.has(id)) {
+		throw new Error(`Unknown biome ${query}`)
+	}
+	return new Set([id.toString()])
+}
+
+function biomeSourceFromJson(obj: unknown) {
+	return BiomeSource.fromJson(resolveBiomeParameters(obj))
+}
+
+/**
+ * Resolves multi noise biome sources that reference a parameter list preset
+ * instead of listing their biomes inline.
+ */
+function resolveBiomeParameters(obj: unknown) {
+	const root = Json.readObject(obj) ?? {}
+	const preset = Json.readString(root.preset) ?? Json.readString(root.parameters)
+	if (root.biomes === undefined && preset !== undefined) {
+		const list = Json.readObject(ParameterListRegistry.get(Identifier.parse(preset))) ?? {}
+		if (list.biomes !== undefined) {
+			return { ...root, biomes: list.biomes }
+		}
+		console.warn(`Cannot resolve biome parameters ${preset}`)
+	}
+	return obj
+}
+
+const END_BIOMES = ['the_end', 'end_highlands', 'end_midlands', 'small_end_islands', 'end_barrens']
+
+/**
+ * @returns The IDs of the biomes the biome source of a dimension can place.
+ */
+export function possibleBiomes(dimension: unknown): string[] {
+	const gen = Json.readObject(Json.readObject(dimension)?.generator) ?? {}
+	const root = Json.readObject(resolveBiomeParameters(gen.biome_source)) ?? {}
+	const ids = (value: unknown) => {
+		const id = Json.readString(value)
+		return id === undefined ? [] : id.startsWith('#') ? [...resolveBiomes(id)] : [Identifier.parse(id).toString()]
+	}
+	switch (Json.readString(root.type)?.replace(/^minecraft:/, '')) {
+		case 'fixed':
+			return ids(root.biome)
+		case 'checkerboard':
+			return Array.isArray(root.biomes) ? root.biomes.flatMap(ids) : ids(root.biomes)
+		case 'multi_noise':
+			return [...new Set((Json.readArray(root.biomes, Json.readObject) ?? []).flatMap(entry => ids(entry?.biome)))]
+		case 'the_end':
+			return END_BIOMES.map(id => Identifier.create(id).toString())
+		default:
+			return []
+	}
+}
+
 export const VanillaColors: Record<string, Color> = {
 	'minecraft:badlands': [217,69,21],
 	'minecraft:badlands_plateau': [202,140,101],
@@ -0,0 +1,244 @@
+/**
+ * A horizontal area of biome samples, split in rows along the Z axis.
+ */
+export type StatisticsArea = {
+	/**
+	 * Block position of the first sample.
+	 */
+	x: number,
+	y: number,
+	z: number,
+	/**
+	 * Distance between samples in blocks.
+	 */
+	step: number,
+	width: number,
+	rows: number,
+}
+
+/**
+ * Biome counts of a strip of rows. Regions are samples of the same biome connected along
+ * the axes, the labels of the regions in the first and last row are kept to connect them
+ * with the regions of the neighboring strips.
+ */
+export type StripStatistics = {
+	biomes: string[],
+	counts: number[],
+	regions: number[],
+	firstRow: { biomes: number[], labels: number[] },
+	lastRow: { biomes: number[], labels: number[] },
+}
+
+export type BiomeStatistics = {
+	biome: string,
+	samples: number,
+	/**
+	 * Percentage of the samples.
+	 */
+	coverage: number,
+	regions: number,
+	/**
+	 * Average area of a region in square blocks.
+	 */
+	averageRegionSize: number,
+}
+
+/**
+ * Rows between progress updates, yielding to other work in the worker.
+ */
+const ROWS_PER_UPDATE = 8
+
+export async function computeStrip(biomeAt: (x: number, y: number, z: number) => string, area: StatisticsArea, onProgress: (rows: number) => void, isCancelled: () => boolean): Promise<StripStatistics> {
+	const { width, rows, step } = area
+	const biomes: string[] = []
+	const biomeIndices = new Map<string, number>()
+	const counts: number[] = []
+	const regions: number[] = []
+	const parents: number[] = []
+	const find = (label: number) => {
+		while (parents[label] !== label) {
+			label = parents[label] = parents[parents[label]]
+		}
+		return label
+	}
+
+	let previous = { biomes: new Int32Array(width), labels: new Int32Array(width) }
+	let current = { biomes: new Int32Array(width), labels: new Int32Array(width) }
+	const firstRow = { biomes: [] as number[], labels: [] as number[] }
+	for (let row = 0; row < rows; row += 1) {
+		for (let col = 0; col < width; col += 1) {
+			const name = biomeAt(area.x + col * step, area.y, area.z + row * step)
+			let biome = biomeIndices.get(name)
+			if (biome === undefined) {
+				biome = biomes.length
+				biomes.push(name)
+				biomeIndices.set(name, biome)
+				counts.push(0)
+				regions.push(0)
+			}
+			counts[biome] += 1
+			const left = col > 0 && current.biomes[col - 1] === biome ? current.labels[col - 1] : -1
+			const up = row > 0 && previous.biomes[col] === biome ? previous.labels[col] : -1
+			let label: number
+			if (left < 0 && up < 0) {
+				label = parents.length
+				parents.push(label)
+				regions[biome] += 1
+			} else if (left >= 0 && up >= 0) {
+				const [a, b] = [find(left), find(up)]
+				if (a !== b) {
+					parents[b] = a
+					regions[biome] -= 1
+				}
+				label = a
+			} else {
+				label = Math.max(left, up)
+			}
+			current.biomes[col] = biome
+			current.labels[col] = label
+		}
+		if (row === 0) {
+			firstRow.biomes = [...current.biomes]
+			firstRow.labels = [...current.labels]
+		}
+		[previous, current] = [current, previous]
+		if (row % ROWS_PER_UPDATE === ROWS_PER_UPDATE - 1) {
+			onProgress(row + 1)
+			await new Promise(resolve => setTimeout(resolve))
+			if (isCancelled()) {
+				throw new Error('Cancelled')
+			}
+		}
+	}
+	onProgress(rows)
+
+	// Regions in the first row may have been merged with other regions later on
+	return {
+		biomes,
+		counts,
+		regions,
+		firstRow: { biomes: firstRow.biomes, labels: firstRow.labels.map(find) },
+		lastRow: { biomes: [...previous.biomes], labels: [...previous.labels].map(find) },
+	}
+}
+
+/**
+ * Combines the statistics of consecutive strips, connecting the regions that cross strips.
+ * @param possibleBiomes Biomes that are listed even if they were never sampled.
+ */
+export function mergeStrips(strips: StripStatistics[], area: StatisticsArea, possibleBiomes: string[]): BiomeStatistics[] {
+	const totals = new Map<string, { samples: number, regions: number }>()
+	possibleBiomes.forEach(biome => totals.set(biome, { samples: 0, regions: 0 }))
+	for (const strip of strips) {
+		strip.biomes.forEach((biome, i) => {
+			const total = totals.get(biome) ?? { samples: 0, regions: 0 }
+			total.samples += strip.counts[i]
+			total.regions += strip.regions[i]
+			totals.set(biome, total)
+		})
+	}
+
+	// Labels are only unique within a strip
+	const parents = new Map<string, string>()
+	const find = (label: string): string => {
+		const parent = parents.get(label)
+		if (parent === undefined || parent === label) return label
+		const root = find(parent)
+		parents.set(label, root)
+		return root
+	}
+	for (let i = 1; i < strips.length; i += 1) {
+		const [above, below] = [strips[i - 1], strips[i]]
+		for (let col = 0; col < area.width; col += 1) {
+			const biome = above.biomes[above.lastRow.biomes[col]]
+			if (biome !== below.biomes[below.firstRow.biomes[col]]) continue
+			const a = find(`${i - 1} ${above.lastRow.labels[col]}`)
+			const b = find(`${i} ${below.firstRow.labels[col]}`)
+			if (a !== b) {
+				parents.set(b, a)
+				totals.get(biome)!.regions -= 1
+			}
+		}
+	}
+
+	const samples = area.width * area.rows
+	return [...totals.entries()].map(([biome, total]) => ({
+		biome,
+		samples: total.samples,
+		coverage: total.samples / samples * 100,
+		regions: total.regions,
+		averageRegionSize: total.regions === 0 ? 0 : total.samples * area.step * area.step / total.regions,
+	}))
+}
+
+export function statisticsToCsv(statistics: BiomeStatistics[]) {
+	return [
+		'biome,coverage,samples,regions,average_region_size',
+		...statistics.map(s => `${s.biome},${s.coverage.toFixed(4)},${s.samples},${s.regions},${Math.round(s.averageRegionSize)}`),
+	].join('\n') + '\n'
+}
+
+/**
+ * A rectangle in the plane of the slice, in the coordinates passed to `Sampler.sampleValue`.
+ */
+export type ValueRegion = {
+	u: number,
+	v: number,
+	width: number,
+	height: number,
+}
+
+export type ValueStatistics = {
+	/**
+	 * Amount of numeric samples, samples without a numeric value are skipped.
+	 */
+	count: number,
+	/**
+	 * Distance between samples in blocks.
+	 */
+	step: number,
+	min: number,
+	max: number,
+	mean: number,
+	stdDev: number,
+	median: number,
+	/**
+	 * Amount of samples in equally sized bins between `min` and `max`.
+	 */
+	histogram: number[],
+}
+
+/**
+ * Larger regions are sampled with a step between samples.
+ */
+const MAX_VALUE_SAMPLES = 256
+const HISTOGRAM_BINS = 40
+
+export function computeValueStatistics(sampleValue: (u: number, v: number) => number, region: ValueRegion): ValueStatistics {
+	const step = Math.max(1, Math.ceil(Math.max(region.width, region.height) / MAX_VALUE_SAMPLES))
+	const values: number[] = []
+	for (let u = Math.floor(region.u); u < region.u + region.width; u += step) {
+		for (let v = Math.floor(region.v); v < region.v + region.height; v += step) {
+			const value = sampleValue(u, v)
+			if (!isNaN(value)) {
+				values.push(value)
+			}
+		}
+	}
+	if (values.length === 0) {
+		return { count: 0, step, min: NaN, max: NaN, mean: NaN, stdDev: NaN, median: NaN, histogram: [] }
+	}
+
+	const sorted = Float64Array.from(values).sort()
+	const [min, max] = [sorted[0], sorted[sorted.length - 1]]
+	const mean = values.reduce((a, b) => a + b) / values.length
+	const variance = values.reduce((a, b) => a + (b - mean) * (b - mean), 0) / values.length
+	const middle = sorted.length >> 1
+	const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+	const histogram: number[] = new Array(HISTOGRAM_BINS).fill(0)
+	for (const value of values) {
+		const bin = max === min ? 0 : Math.floor((value - min) / (max - min) * HISTOGRAM_BINS)
+		histogram[Math.min(bin, HISTOGRAM_BINS - 1)] += 1
+	}
+	return { count: values.length, step, min, max, mean, stdDev: Math.sqrt(variance), median, histogram }
+}
@@ -0,0 +1,474 @@
+import type { mat3 } from 'gl-matrix'
+import type { Slice, ViewError } from '../shared'
+import type { Inspection } from './inspector'
+import type { ProfileReport } from './profiler'
+import type { LocateResult } from './samplers'
+import type { StatisticsArea, StripStatistics, ValueRegion, ValueStatistics } from './statistics'
+
+export const TILE_SIZE = 64
+
+/**
+ * Step of the first, coarsest render pass of a tile. Every following pass halves it.
+ */
+export const START_STEP = 8
+
+export interface TileRequest {
+	key: string
+	/**
+	 * World coordinates of the top left corner of the tile.
+	 */
+	x: number
+	y: number
+	/**
+	 * Size of a tile pixel in blocks.
+	 */
+	scale: number
+}
+
+/**
+ * A tile that a worker is rendering, with the pixels of its passes so far.
+ */
+export interface TileJob extends TileRequest {
+	/**
+	 * Step of the next pass.
+	 */
+	step: number
+	pixels: Uint8ClampedArray
+}
+
+/**
+ * Replaces the queue of a worker with the requested tiles. Tiles that are in the queue keep
+ * their passes, others start over, even if they were finished before: the renderer only
+ * requests tiles it doesn't have, like tiles it evicted.
+ */
+export function queueTiles(queue: TileJob[], tiles: TileRequest[]): TileJob[] {
+	const previous = new Map(queue.map(job => [job.key, job]))
+	return tiles.map(tile => previous.get(tile.key) ?? {
+		...tile,
+		step: START_STEP,
+		pixels: new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4),
+	})
+}
+
+/**
+ * Pixels of an exported image, in canvas coordinates like {@link TileRequest}.
+ */
+export type ImageArea = {
+	x: number,
+	y: number,
+	scale: number,
+	width: number,
+	height: number,
+}
+
+/**
+ * @returns The pixels that cover the region at `scale` blocks per pixel, a partial pixel at the edge counts as a whole one.
+ */
+export function imageArea(region: ValueRegion, scale: number): ImageArea {
+	const width = Math.max(1, Math.ceil(region.width / scale))
+	const height = Math.max(1, Math.ceil(region.height / scale))
+	return { x: region.u, y: -(region.v + region.height), scale, width, height }
+}
+
+/**
+ * Work besides rendering tiles. The worker answers with a `result` response with the same `id`.
+ */
+export type TaskRequest = {
+	type: 'locate',
+	query: string,
+	origin: [number, number, number],
+} | {
+	type: 'statistics',
+	area: StatisticsArea,
+} | {
+	type: 'values',
+	region: ValueRegion,
+} | {
+	type: 'image',
+	area: ImageArea,
+} | {
+	type: 'profile',
+	region: ValueRegion,
+} | {
+	type: 'inspect',
+	pos: [number, number],
+}
+
+export type WorkerRequest = {
+	type: 'load',
+	generation: number,
+	fileType: string,
+	fileResource: string,
+	data: Record<string, Record<string, string>>,
+	seed: bigint,
+	config: unknown,
+	slice: Slice | undefined,
+	/**
+	 * When set, the worker renders the difference between the file and this content.
+	 */
+	baseline: string | undefined,
+} | {
+	type: 'config',
+	generation: number,
+	config: unknown,
+} | {
+	type: 'slice',
+	generation: number,
+	slice: Slice,
+} | {
+	/**
+	 * Replaces the queue of the worker, tiles that are no longer requested are cancelled.
+	 */
+	type: 'render',
+	generation: number,
+	tiles: TileRequest[],
+} | TaskRequest & {
+	generation: number,
+	id: number,
+} | {
+	type: 'cancel',
+	generation: number,
+	id: number,
+}
+
+export type WorkerResponse = {
+	type: 'tile',
+	generation: number,
+	key: string,
+	step: number,
+	pixels: Uint8ClampedArray,
+	/**
+	 * Range of the values sampled in this pass, if the sampler has numeric values.
+	 */
+	range: [number, number] | undefined,
+} | {
+	type: 'failed',
+	generation: number,
+	key: string,
+	error: ViewError,
+} | {
+	type: 'result',
+	generation: number,
+	id: number,
+	result: unknown,
+	error?: ViewError,
+} | {
+	type: 'progress',
+	generation: number,
+	id: number,
+	progress: number,
+}
+
+/**
+ * Tiles are kept up to this amount, tiles that aren't visible are evicted first.
+ */
+const MAX_TILES = 1024
+
+interface Tile {
+	generation: number
+	/**
+	 * Step of the last received pass, `undefined` if rendering failed.
+	 */
+	step: number | undefined
+	canvas: HTMLCanvasElement
+	/**
+	 * Range of the values in all passes of this generation.
+	 */
+	range: [number, number] | undefined
+}
+
+interface Task {
+	type: TaskRequest['type']
+	worker: Worker
+	resolve: (result: any) => void
+	reject: (error: Error) => void
+	onProgress?: (progress: number) => void
+}
+
+/**
+ * Renders the view in world-aligned tiles on a pool of workers. Tiles are reused
+ * while panning and only replaced once their re-rendered version arrives, so the
+ * last good render stays visible.
+ */
+export class TileRenderer {
+	private workers: Worker[] = []
+	private readonly tiles = new Map<string, Tile>()
+	private requested: string[] = []
+	private generation = 0
+	private readonly tasks = new Map<number, Task>()
+	private nextTask = 0
+	private visible: ValueRegion | undefined
+
+	constructor(
+		private readonly workerUrl: string,
+		private readonly onChange: () => void,
+		private readonly onError: (error: ViewError) => void,
+		private readonly onRange: (range: [number, number]) => void,
+	) {}
+
+	/**
+	 * Starts the workers if they aren't running yet.
+	 */
+	public load(fileType: string, fileResource: string, data: Record<string, Record<string, string>>, seed: bigint, config: unknown, slice: Slice | undefined, baseline?: string) {
+		if (this.workers.length === 0) {
+			const count = Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1))
+			this.workers = [...Array(count)].map(() => {
+				const worker = new Worker(this.workerUrl)
+				worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.onMessage(e.data)
+				return worker
+			})
+			this.requested = this.workers.map(() => '')
+		}
+		this.broadcast({ type: 'load', generation: ++this.generation, fileType, fileResource, data, seed, config, slice, baseline })
+	}
+
+	public setConfig(config: unknown) {
+		this.broadcast({ type: 'config', generation: ++this.generation, config })
+	}
+
+	public setSlice(slice: Slice) {
+		this.broadcast({ type: 'slice', generation: ++this.generation, slice })
+	}
+
+	/**
+	 * Draws the available tiles and requests the visible tiles that are missing, outdated
+	 * or not fully refined. Requests for tiles that went out of view are cancelled.
+	 */
+	public draw(ctx: CanvasRenderingContext2D, transform: mat3) {
+		const { width, height } = ctx.canvas
+		if (this.workers.length === 0) {
+			ctx.clearRect(0, 0, width, height)
+			return
+		}
+		const scale = transform[0]
+		const [offsetX, offsetY] = [transform[6], transform[7]]
+		const tileSize = TILE_SIZE * scale
+		// The canvas is flipped vertically compared to the slice
+		this.visible = { u: offsetX, v: -(offsetY + height * scale), width: width * scale, height: height * scale }
+		const requests: TileRequest[][] = this.workers.map(() => [])
+		const visible = new Set<string>()
+		let range: [number, number] | undefined
+		let complete = true
+
+		ctx.imageSmoothingEnabled = false
+		ctx.clearRect(0, 0, width, height)
+		const minX = Math.floor(offsetX / tileSize)
+		const minY = Math.floor(offsetY / tileSize)
+		const maxX = Math.floor((offsetX + width * scale) / tileSize)
+		const maxY = Math.floor((offsetY + height * scale) / tileSize)
+		for (let tx = minX; tx <= maxX; tx += 1) {
+			for (let ty = minY; ty <= maxY; ty += 1) {
+				const key = `${scale} ${tx} ${ty}`
+				visible.add(key)
+				const tile = this.tiles.get(key)
+				if (tile) {
+					ctx.drawImage(tile.canvas, Math.round((tx * tileSize - offsetX) / scale), Math.round((ty * tileSize - offsetY) / scale))
+				}
+				if (tile?.generation !== this.generation || (tile.step !== undefined && tile.step > 1)) {
+					requests[Math.abs(tx + ty * 31) % this.workers.length]
+						.push({ key, x: tx * tileSize, y: ty * tileSize, scale })
+					complete = false
+				} else if (tile.range) {
+					range = unionRange(range, tile.range)
+				}
+			}
+		}
+
+		requests.forEach((tiles, i) => {
+			const serialized = `${this.generation} ${tiles.map(t => t.key).join(',')}`
+			if (serialized === this.requested[i]) return
+			this.requested[i] = serialized
+			this.workers[i].postMessage({ type: 'render', generation: this.generation, tiles } as WorkerRequest)
+		})
+
+		this.evict(visible)
+		// Only fit to the values once the view is fully refined, coarse passes don't cover all values
+		if (complete && range) {
+			this.onRange(range)
+		}
+	}
+
+	/**
+	 * Searches for a biome on one of the workers, see {@link Sampler.locate}.
+	 */
+	public locate(query: string, origin: [number, number, number]) {
+		return this.runTask<LocateResult | undefined>(0, { type: 'locate', query, origin })
+	}
+
+	/**
+	 * Counts the biomes in the area, with the rows split over the workers.
+	 * @param onProgress Called with the amount of rows that are done.
+	 * @returns The statistics of every strip of rows, from north to south.
+	 */
+	public biomeStatistics(area: StatisticsArea, onProgress: (rows: number) => void) {
+		return this.runStrips<StripStatistics>(area.rows, (start, rows) => {
+			return { type: 'statistics', area: { ...area, z: area.z + start * area.step, rows } }
+		}, onProgress)
+	}
+
+	/**
+	 * Renders the pixels of an image with the current sampler, with the rows split over the workers.
+	 * @param onProgress Called with the amount of rows that are done.
+	 */
+	public async renderImage(area: ImageArea, onProgress: (rows: number) => void) {
+		const strips = await this.runStrips<Uint8ClampedArray>(area.height, (start, rows) => {
+			return { type: 'image', area: { ...area, y: area.y + start * area.scale, height: rows } }
+		}, onProgress)
+		const pixels = new Uint8ClampedArray(area.width * area.height * 4)
+		let offset = 0
+		for (const strip of strips) {
+			pixels.set(strip, offset)
+			offset += strip.length
+		}
+		return pixels
+	}
+
+	/**
+	 * @returns The region that was visible when the canvas was last drawn.
+	 */
+	public get visibleRegion() {
+		return this.visible
+	}
+
+	public valueStatistics(region: ValueRegion) {
+		return this.runTask<ValueStatistics>(0, { type: 'values', region })
+	}
+
+	/**
+	 * Measures the nodes of the density function over the region, see {@link Sampler.profile}.
+	 * @param onProgress Called with the fraction of the samples that are done.
+	 */
+	public profile(region: ValueRegion, onProgress: (progress: number) => void) {
+		return this.runTask<ProfileReport>(0, { type: 'profile', region }, onProgress)
+	}
+
+	/**
+	 * Evaluates every node of the density function at a position in the slice, see {@link Sampler.inspect}.
+	 */
+	public inspect(x: number, y: number) {
+		return this.runTask<Inspection>(0, { type: 'inspect', pos: [x, y] })
+	}
+
+	/**
+	 * Stops the running tasks of a type, the pending promises are rejected.
+	 */
+	public cancel(type: TaskRequest['type']) {
+		this.tasks.forEach((task, id) => {
+			if (task.type !== type) return
+			task.worker.postMessage({ type: 'cancel', generation: this.generation, id } as WorkerRequest)
+			task.reject(new Error('Cancelled'))
+			this.tasks.delete(id)
+		})
+	}
+
+	/**
+	 * Splits `rows` in consecutive strips, one for each worker.
+	 * @returns The results of the strips, in order.
+	 */
+	private runStrips<T>(rows: number, request: (start: number, rows: number) => TaskRequest, onProgress: (rows: number) => void) {
+		const strips = Math.max(1, Math.min(this.workers.length, rows))
+		const start = (i: number) => Math.floor(i * rows / strips)
+		const progress: number[] = new Array(strips).fill(0)
+		return Promise.all(progress.map((_, i) => {
+			return this.runTask<T>(i, request(start(i), start(i + 1) - start(i)), rows => {
+				progress[i] = rows
+				onProgress(progress.reduce((a, b) => a + b))
+			})
+		}))
+	}
+
+	private runTask<T>(workerIndex: number, request: TaskRequest, onProgress?: (progress: number) => void) {
+		return new Promise<T>((resolve, reject) => {
+			const worker = this.workers[workerIndex]
+			if (!worker) {
+				throw new Error('Nothing is loaded')
+			}
+			const id = this.nextTask++
+			this.tasks.set(id, { type: request.type, worker, resolve, reject, onProgress })
+			worker.postMessage({ ...request, generation: this.generation, id } as WorkerRequest)
+		})
+	}
+
+	/**
+	 * Stops the workers and forgets all tiles, until the next {@link load}.
+	 */
+	public dispose() {
+		this.workers.forEach(w => w.terminate())
+		this.workers = []
+		this.requested = []
+		this.tiles.clear()
+		this.generation += 1
+		this.tasks.forEach(({ reject }) => reject(new Error('Cancelled')))
+		this.tasks.clear()
+	}
+
+	private broadcast(message: WorkerRequest) {
+		this.workers.forEach(w => w.postMessage(message))
+		this.onChange()
+	}
+
+	private onMessage(message: WorkerResponse) {
+		// Tasks aren't tied to a generation, they keep using the sampler they started with
+		if (message.type === 'progress') {
+			this.tasks.get(message.id)?.onProgress?.(message.progress)
+			return
+		}
+		if (message.type === 'result') {
+			const task = this.tasks.get(message.id)
+			this.tasks.delete(message.id)
+			if (message.error) {
+				task?.reject(new Error(message.error.message))
+			} else {
+				task?.resolve(message.result)
+			}
+			return
+		}
+		if (message.generation !== this.generation) return
+		switch (message.type) {
+			case 'tile':
+				const tile = this.tiles.get(message.key) ?? this.createTile()
+				tile.range = tile.generation === message.generation && message.step !== START_STEP
+					? unionRange(tile.range, message.range)
+					: message.range
+				tile.generation = message.generation
+				tile.step = message.step
+				tile.canvas.getContext('2d')!.putImageData(new ImageData(message.pixels, TILE_SIZE, TILE_SIZE), 0, 0)
+				this.tiles.set(message.key, tile)
+				break
+			case 'failed':
+				// Keep the outdated pixels of the tile, if there are any
+				const failed = this.tiles.get(message.key)
+				if (failed) {
+					failed.generation = message.generation
+					failed.step = undefined
+				} else {
+					this.tiles.set(message.key, { ...this.createTile(), generation: message.generation })
+				}
+				this.onError(message.error)
+				break
+		}
+		this.onChange()
+	}
+
+	private createTile(): Tile {
+		const canvas = document.createElement('canvas')
+		canvas.width = TILE_SIZE
+		canvas.height = TILE_SIZE
+		return { generation: this.generation, step: undefined, canvas, range: undefined }
+	}
+
+	private evict(visible: Set<string>) {
+		if (this.tiles.size <= MAX_TILES) return
+		for (const key of this.tiles.keys()) {
+			if (!visible.has(key)) {
+				this.tiles.delete(key)
+				if (this.tiles.size <= MAX_TILES) return
+			}
+		}
+	}
+}
+
+function unionRange(a: [number, number] | undefined, b: [number, number] | undefined): [number, number] | undefined {
+	if (!a || !b) return a ?? b
+	return [Math.min(a[0], b[0]), Math.max(a[1], b[1])]
+}
@@ -1,6 +1,128 @@
+import type { Slice } from '../shared'
+
 export function hashString(s: string) {
 	let h = 0
 	for(let i = 0; i < s.length; i++)
 		h = Math.imul(31, h) + s.charCodeAt(i) | 0
 	return h
 }
+
+/**
+ * @returns A 128-bit hash of `s` as hex, from four mixed 32-bit lanes (cyrb128).
+ * Not cryptographic, but collisions between distinct inputs are vanishingly unlikely.
+ */
+export function digestString(s: string) {
+	let [h1, h2, h3, h4] = [1779033703, 3144134277, 1013904242, 2773480762]
+	for (let i = 0; i < s.length; i++) {
+		const k = s.charCodeAt(i)
+		h1 = h2 ^ Math.imul(h1 ^ k, 597399067)
+		h2 = h3 ^ Math.imul(h2 ^ k, 2869860233)
+		h3 = h4 ^ Math.imul(h3 ^ k, 951274213)
+		h4 = h1 ^ Math.imul(h4 ^ k, 2716044179)
+	}
+	h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067)
+	h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233)
+	h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213)
+	h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179)
+	h1 ^= h2 ^ h3 ^ h4
+	h2 ^= h1
+	h3 ^= h1
+	h4 ^= h1
+	return [h1, h2, h3, h4].map(h => (h >>> 0).toString(16).padStart(8, '0')).join('')
+}
+
+/**
+ * @returns The world position of the canvas position `u`, `v` in the `slice` plane.
+ */
+export function sliceToWorld(slice: Slice, u: number, v: number): [number, number, number] {
+	switch (slice.axis) {
+		case 'xz': return [u, slice.coord, v]
+		case 'xy': return [u, v, slice.coord]
+		case 'zy': return [slice.coord, v, u]
+	}
+}
+
+/**
+ * @returns The canvas position of the world position `pos` in the plane of `axis`,
+ * and the coordinate of the slice that contains it.
+ */
+export function worldToSlice(axis: Slice['axis'], [x, y, z]: [number, number, number]): [number, number, number] {
+	switch (axis) {
+		case 'xz': return [x, z, y]
+		case 'xy': return [x, y, z]
+		case 'zy': return [z, y, x]
+	}
+}
+
+/**
+ * Walks a square spiral outward from the origin, the same way `BlockPos.spiralAround`
+ * does in Minecraft: east first, then south.
+ * @returns Offsets `[dx, dz]`, up to `radius` in each direction.
+ */
+export function* spiralAround(radius: number): Generator<[number, number]> {
+	const directions: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]]
+	let [x, z] = [0, 0]
+	yield [x, z]
+	for (let leg = 0; leg <= 4 * radius; leg += 1) {
+		const [dx, dz] = directions[leg % 4]
+		// The last leg stops at the corner, completing the square
+		const length = Math.min((leg >> 1) + 1, 2 * radius)
+		for (let i = 0; i < length; i += 1) {
+			x += dx
+			z += dz
+			yield [x, z]
+		}
+	}
+}
+
+/**
+ * Alternates above and below the origin in steps of `step`, like `Mth.outFromOrigin`
+ * in Minecraft, continuing on one side once the other side is out of bounds.
+ */
+export function* outFromOrigin(origin: number, min: number, max: number, step: number): Generator<number> {
+	if (origin < min || origin > max) return
+	yield origin
+	for (let d = step; origin - d >= min || origin + d <= max; d += step) {
+		if (origin + d <= max) yield origin + d
+		if (origin - d >= min) yield origin - d
+	}
+}
+
+export function defaultSlice(fileType: string): Slice {
+	switch (fileType) {
+		case 'dimension': return axisSlice('xz')
+		default: return axisSlice('xy')
+	}
+}
+
+/**
+ * @returns The slice along `axis` through the origin, horizontal slices are at Y=64.
+ */
+export function axisSlice(axis: Slice['axis']): Slice {
+	return { axis, coord: axis === 'xz' ? 64 : 0 }
+}
+
+/**
+ * Converts seed input the way Minecraft does: numbers that fit in a long are used
+ * as is, other text is hashed and empty input picks a random seed.
+ * @returns The decimal representation of the seed.
+ */
+export function parseSeed(input: string): string {
+	const trimmed = input.trim()
+	if (trimmed === '') {
+		return randomSeed()
+	}
+	if (/^[-+]?\d+$/.test(trimmed)) {
+		const seed = BigInt(trimmed)
+		if (BigInt.asIntN(64, seed) === seed) {
+			return seed.toString()
+		}
+	}
+	return hashString(trimmed).toString()
+}
+
+export function randomSeed(): string {
+	const high = BigInt(Math.floor(Math.random() * 0x100000000))
+	const low = BigInt(Math.floor(Math.random() * 0x100000000))
+	return BigInt.asIntN(64, high * BigInt(0x100000000) + low).toString()
+}
@@ -1,11 +1,20 @@
-import { Identifier, Registry } from 'deepslate'
 import type { mat3 } from 'gl-matrix'
 import { Fragment, h, render } from 'preact'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks'
-import type { HostMessage, ViewMessage, ViewState } from '../shared'
-import { InteractiveCanvas2D, iterateWorld2D } from './canvas'
-import type { Sampler } from './samplers'
-import { createSampler, EmptySampler } from './samplers'
+import type { Baseline, Compare, HostMessage, Slice, ViewError, ViewMessage, ViewState } from '../shared'
+import type { Props as CanvasProps } from './canvas'
+import { InteractiveCanvas2D } from './canvas'
+import { toViewError } from './errors'
+import { buildDependencyGraph, layoutGraph } from './graph'
+import type { InspectedNode, Inspection } from './inspector'
+import type { ProfileNode, ProfileReport } from './profiler'
+import { loadRegistries } from './registries'
+import type { LocateResult, Sampler } from './samplers'
+import { createSampler, DiffSampler, EmptySampler, LEGEND_HEIGHT, possibleBiomes } from './samplers'
+import type { BiomeStatistics, StatisticsArea, ValueRegion, ValueStatistics } from './statistics'
+import { mergeStrips, statisticsToCsv } from './statistics'
+import { imageArea, TileRenderer } from './tiles'
+import { defaultSlice, parseSeed, randomSeed, sliceToWorld, worldToSlice } from './util'
 
 declare function acquireVsCodeApi(): {
 	getState(): Partial<ViewState> | undefined,
@@ -13,9 +22,23 @@ declare function acquireVsCodeApi(): {
 	postMessage(message: HostMessage): void,
 }
 
+type UpdateMessage = Extract<ViewMessage, { type: 'update' }>
+type Sources = Omit<UpdateMessage, 'type' | 'data'>
+type Located = LocateResult & { distance: number }
+type StatisticsRequest = { area: StatisticsArea, possibleBiomes: string[], name: string }
+
+/**
+ * Biome statistics are sampled at quart resolution, like the biomes stored in chunks.
+ */
+const STATISTICS_STEP = 4
+
 const vscode = acquireVsCodeApi()
 
 let state = vscode.getState() ?? {}
+if (typeof (state.seed as unknown) === 'number') {
+	// Older versions stored the seed as a number
+	setStateRaw({ seed: `${state.seed}` })
+}
 function setStateRaw(data: Partial<ViewState>) {
 	state = { ...state, ...data }
 	vscode.setState(state)
@@ -32,45 +55,173 @@ function useViewState<K extends keyof ViewState>(key: K, factory: () => ViewStat
 	return [value, changeValue]
 }
 
-render(<App />, document.getElementById('app')!)
+// Webviews can't start workers from resource URIs, so the worker is loaded from a blob
+const app = document.getElementById('app')!
+fetch(app.dataset.worker!)
+	.then(res => res.blob())
+	.then(blob => {
+		render(<App workerUrl={URL.createObjectURL(blob)} />, app)
+		vscode.postMessage({ type: 'ready', seed: state.seed! })
+	})
 
-vscode.postMessage({ type: 'ready' })
-
-function App() {
-	const [seedNumber] = useViewState('seed', () => Math.floor(Math.random() * 100000))
+function App({ workerUrl }: { workerUrl: string }) {
+	const [seed, setSeed] = useViewState('seed', () => randomSeed())
 	const [viewX, setViewX] = useViewState('viewX', () => 0)
 	const [viewY, setViewY] = useViewState('viewY', () => 0)
 	const [viewScale, setViewScale] = useViewState('viewScale', () => 1)
 	const [viewConfig, setConfig] = useViewState('viewConfig', () => undefined)
-
-	const seed = useMemo(() => BigInt(seedNumber), [seedNumber])
+	const [slice, setSlice] = useViewState('slice', () => undefined)
+	const [compare, setCompare] = useViewState('compare', () => undefined)
 
 	const [sampler, setSampler] = useState<Sampler>(new EmptySampler())
+	// Only used when comparing side-by-side or by swiping
+	const [baselineSampler, setBaselineSampler] = useState<Sampler>()
+	const [baselineLabel, setBaselineLabel] = useState<string>()
+	const [statistics, setStatistics] = useState<StatisticsRequest>()
+	const [exporting, setExporting] = useState(false)
+	const [showingGraph, setShowingGraph] = useState(false)
+	const [sources, setSources] = useState<Sources>()
+	const [errors, setErrors] = useState<ViewError[]>([])
+
+	const reportedErrors = useRef('[]')
+	const reportErrors = useCallback((newErrors: ViewError[]) => {
+		const serialized = JSON.stringify(newErrors)
+		if (serialized === reportedErrors.current) return
+		reportedErrors.current = serialized
+		setErrors(newErrors)
+		vscode.postMessage({ type: 'errors', errors: newErrors })
+	}, [])
+
+	const [tileVersion, setTileVersion] = useState(0)
+	const fitRange = useRef<(range: [number, number]) => void>(() => {})
+	const renderer = useMemo(() => {
+		return new TileRenderer(workerUrl, () => setTileVersion(v => v + 1), e => reportErrors([e]), range => fitRange.current(range))
+	}, [workerUrl])
+	// The range of the colors always follows the previewed file
+	const baselineRenderer = useMemo(() => {
+		return new TileRenderer(workerUrl, () => setTileVersion(v => v + 1), e => reportErrors([e]), () => {})
+	}, [workerUrl])
+	useEffect(() => () => {
+		renderer.dispose()
+		baselineRenderer.dispose()
+	}, [renderer, baselineRenderer])
+
+	const changeSlice = useCallback((slice: Slice) => {
+		sampler.setSlice?.(slice)
+		baselineSampler?.setSlice?.(slice)
+		renderer.setSlice(slice)
+		baselineRenderer.setSlice(slice)
+		setSlice(slice)
+	}, [sampler, baselineSampler])
 
 	const changeConfig = useCallback((config: unknown) => {
+		const current = state.slice
+		const previous = current && sampler.preferredSlice?.(current)
 		sampler.setConfig?.(config)
+		baselineSampler?.setConfig?.(config)
+		renderer.setConfig(config)
+		baselineRenderer.setConfig(config)
 		setConfig(config)
-	}, [sampler])
+		// Switch to the slice of a newly selected layer, but keep the slice that was picked for the same layer
+		const preferred = current && sampler.preferredSlice?.(current)
+		if (preferred && JSON.stringify(preferred) !== JSON.stringify(previous)) {
+			changeSlice(preferred)
+		}
+	}, [sampler, baselineSampler, changeSlice])
+
+	useEffect(() => {
+		fitRange.current = range => {
+			const config = sampler.fitRange?.(range)
+			if (config !== undefined) {
+				changeConfig(config)
+			}
+		}
+	}, [sampler, changeConfig])
+
+	const update = useRef<UpdateMessage>()
+	const loadSampler = useCallback((seed: bigint) => {
+		if (!update.current) return
+		const { fileType, fileResource, data, baseline } = update.current
+		const mode = baseline ? state.compare?.mode : undefined
+		try {
+			loadRegistries(data)
+			const json = JSON.parse(data[fileType][fileResource])
+			let baselineJson: unknown
+			try {
+				baselineJson = baseline ? JSON.parse(baseline.content) : undefined
+			} catch (e) {
+				throw new Error(`Baseline ${baseline!.label}: ${(e as Error).message}`)
+			}
+			const currentSampler = createSampler(fileType, json, seed)
+			const otherSampler = baseline ? createSampler(fileType, baselineJson, seed) : undefined
+			const newSampler = mode === 'difference' ? new DiffSampler(currentSampler, otherSampler!) : currentSampler
+			const newBaselineSampler = mode === 'difference' ? undefined : otherSampler
+			for (const s of [newSampler, newBaselineSampler]) {
+				if (state.viewConfig && s?.setConfig) {
+					s.setConfig(state.viewConfig)
+				}
+			}
+			const fileSlice = defaultSlice(fileType)
+			const newSlice = state.slice ?? newSampler.preferredSlice?.(fileSlice) ?? fileSlice
+			for (const s of [newSampler, newBaselineSampler]) {
+				s?.setSlice?.(newSlice)
+			}
+			setSlice(newSlice)
+			setSampler(newSampler)
+			setBaselineSampler(newBaselineSampler)
+			setBaselineLabel(baseline?.label)
+			renderer.load(fileType, fileResource, data, seed, state.viewConfig, newSlice, mode === 'difference' ? baseline!.content : undefined)
+			if (baseline && mode !== 'difference') {
+				const baselineData = { ...data, [fileType]: { ...data[fileType], [fileResource]: baseline.content } }
+				baselineRenderer.load(fileType, fileResource, baselineData, seed, state.viewConfig, newSlice)
+			} else {
+				baselineRenderer.dispose()
+			}
+			reportErrors([])
+		} catch (e) {
+			console.error(e)
+			reportErrors([toViewError(e)])
+		}
+	}, [renderer, baselineRenderer])
+
+	const changeCompare = useCallback((newCompare: Compare | undefined) => {
+		const baselineChanged = JSON.stringify(newCompare?.baseline) !== JSON.stringify(state.compare?.baseline)
+		setCompare(newCompare)
+		if (baselineChanged) {
+			vscode.postMessage({ type: 'compare', baseline: newCompare?.baseline })
+		} else {
+			loadSampler(BigInt(state.seed!))
+		}
+	}, [loadSampler])
+
+	const changeSeed = useCallback((seed: string, notify = true) => {
+		setSeed(seed)
+		loadSampler(BigInt(seed))
+		if (notify) {
+			vscode.postMessage({ type: 'seed', seed })
+		}
+	}, [loadSampler])
 
 	useEffect(() => {
 		const messageHandler = ({ data: message }: MessageEvent<ViewMessage>) => {
 			console.log('Message', message)
 			switch (message.type) {
 				case 'update':
-					const { fileUri, fileType, fileResource, data } = message
+					const { fileUri, fileType, fileResource, packs, origins } = message
 					setStateRaw({ fileUri: fileUri })
-					Registry.REGISTRY.forEach((key, registry) => {
-						registry.clear()
-						Object.entries(data[key.path] ?? {}).forEach(([type, value]) => {
-							registry.register(Identifier.parse(type), registry.parse(JSON.parse(value as string)))
-						})
-					})
-					const json = JSON.parse(data[fileType][fileResource])
-					const newSampler = createSampler(fileType, json, seed)
-					if (viewConfig && newSampler.setConfig) {
-						newSampler.setConfig(viewConfig)
-					}
-					setSampler(newSampler)
+					setSources({ fileUri, fileType, fileResource, packs, origins })
+					// The host resolves the baseline, for example by asking which file to use
+					setCompare(message.baseline
+						? { mode: state.compare?.mode ?? 'side-by-side', baseline: message.baseline.source }
+						: undefined)
+					update.current = message
+					loadSampler(BigInt(state.seed!))
+					break
+				case 'seed':
+					changeSeed(parseSeed(message.seed), false)
+					break
+				case 'statistics':
+					requestStatistics(message.size)
 					break
 			}
 		}
@@ -78,35 +229,64 @@ function App() {
 		return () => window.removeEventListener('message', messageHandler)
 	}, [setSampler])
 
-	const ctx = useRef<CanvasRenderingContext2D>()
-	const imageData = useRef<ImageData>()
-	const [focused, setFocused] = useState<string[]>([])
-	const onSetup = useCallback((canvas: HTMLCanvasElement) => {
-		const ctx2D = canvas.getContext('2d')
-		if (!ctx2D) return
-		ctx.current = ctx2D
-	}, [])
-	const onResize = useCallback((width: number, height: number) => {
-		if (!ctx.current) return
-		imageData.current = ctx.current.getImageData(0, 0, width, height)
+	const locate = useCallback(async (query: string): Promise<Located | undefined> => {
+		const currentSlice = state.slice ?? defaultSlice('dimension')
+		const origin = sliceToWorld(currentSlice, -state.viewX!, state.viewY!)
+		const result = await renderer.locate(query, origin)
+		if (!result) return undefined
+		const [u, v, coord] = worldToSlice(currentSlice.axis, result.pos)
+		setViewX(-u)
+		setViewY(v)
+		// Move the slice through the found position, the biome may not reach the current slice
+		if (coord !== currentSlice.coord) {
+			changeSlice({ ...currentSlice, coord })
+		}
+		return { ...result, distance: Math.floor(Math.hypot(result.pos[0] - origin[0], result.pos[2] - origin[2])) }
+	}, [renderer, changeSlice])
+
+	const requestStatistics = useCallback((size: number) => {
+		if (!update.current) return
+		const { data, fileType, fileResource } = update.current
+		const [x, y, z] = sliceToWorld(state.slice ?? defaultSlice(fileType), -state.viewX!, state.viewY!)
+		const samples = Math.ceil(size / STATISTICS_STEP)
+		const offset = Math.floor(samples / 2) * STATISTICS_STEP
+		let possible: string[] = []
+		try {
+			possible = possibleBiomes(JSON.parse(data[fileType][fileResource]))
+		} catch (e) {
+			// Already reported when loading the sampler
+		}
+		setStatistics({
+			area: { x: x - offset, y, z: z - offset, step: STATISTICS_STEP, width: samples, rows: samples },
+			possibleBiomes: possible,
+			name: fileResource.replace(/^.*[:/]/, ''),
+		})
 	}, [])
-	const onDraw = useCallback((transform: mat3) => {
-		if (!ctx.current || !imageData.current) return
-		console.log('onDraw', transform)
-		iterateWorld2D(imageData.current, transform, (x, y) => {
-			return sampler.sampleColor(x, y)
-		}, c => [c[0] * 256, c[1] * 256, c[2] * 256])
-		ctx.current.putImageData(imageData.current, 0, 0)
-	}, [sampler, viewConfig])
+
+	const [focused, setFocused] = useState<string[]>([])
+	const [hovered, setHovered] = useState<[number, number]>()
 	const onHover = useCallback((pos: [number, number] | undefined) => {
 		if (!pos) {
 			setFocused([])
 		} else {
 			const [x, y] = pos
-			const output = sampler.sampleText(x, -y)
-			setFocused([`X=${x} Y=${-y}`,output])
+			setHovered([x, -y])
+			const sampleText = (sampler: Sampler) => {
+				try {
+					return sampler.sampleText(x, -y)
+				} catch (e) {
+					return 'error'
+				}
+			}
+			const [worldX, worldY, worldZ] = sliceToWorld(slice ?? defaultSlice(''), x, -y)
+			setFocused([
+				`X=${worldX} Y=${worldY} Z=${worldZ}`,
+				sampleText(sampler),
+				...baselineSampler ? [`${baselineLabel}: ${sampleText(baselineSampler)}`] : [],
+			])
 		}
-	}, [sampler])
+	}, [sampler, baselineSampler, baselineLabel, slice])
+	const [swipe, setSwipe] = useState(50)
 
 	const onPositionChanged = useCallback((value: [number, number]) => {
 		setViewX(Math.floor(-value[0]))
@@ -116,9 +296,818 @@ function App() {
 		setViewScale(value)
 	}, [])
 
+	const canvasProps = { version: tileVersion, onHover, startPosition: [viewX, viewY] as [number, number], startScale: viewScale, pixelSize: 2, onPositionChanged, onScaleChanged, position: [viewX, viewY] as [number, number], scale: viewScale }
+	const mode = baselineSampler ? compare?.mode : undefined
+
 	return <>
-		<InteractiveCanvas2D onSetup={onSetup} onResize={onResize} onDraw={onDraw} onHover={onHover} startPosition={[viewX, viewY]} startScale={viewScale} pixelSize={2} onPositionChanged={onPositionChanged} onScaleChanged={onScaleChanged} />
+		<div class={`canvas-container${mode ? ` ${mode}` : ''}`}>
+			<div class="canvas-side">
+				{/* Remounted when the layout changes, the canvas only measures itself when mounted or resized */}
+				<TileCanvas key={mode ?? 'single'} renderer={renderer} {...canvasProps} />
+			</div>
+			{mode && <div class="canvas-side baseline" style={mode === 'swipe' ? { clipPath: `inset(0 0 0 ${swipe}%)` } : {}}>
+				<TileCanvas renderer={baselineRenderer} {...canvasProps} />
+			</div>}
+			{mode === 'swipe' && <input class="swipe-slider" type="range" min={0} max={100} value={swipe} onInput={e => setSwipe(parseInt((e.target as HTMLInputElement).value))} />}
+		</div>
 		<div class='hover-info'>{focused.map(s => <span>{s}</span>)}</div>
-		{sampler.renderConfig?.(changeConfig)}
+		{sampler.renderLegend?.()}
+		{errors.length > 0 && <div class='error-overlay'>{errors.map(e =>
+			<div>{e.resource ? `${e.resource.identifier}: ` : ''}{e.message}</div>
+		)}</div>}
+		<div class='config-panel'>
+			<SeedControls seed={seed} onChange={changeSeed} />
+			<CompareControls compare={compare} label={baselineLabel} onChange={changeCompare} />
+			{sampler.renderConfig?.(changeConfig)}
+			{slice && <SliceControls slice={slice} onChange={changeSlice} />}
+			{sources?.fileType === 'dimension' && update.current && <LocateControls data={update.current.data} onLocate={locate} />}
+			<div class="export-config">
+				<button onClick={() => setExporting(true)}>Export image</button>
+				<button onClick={() => setShowingGraph(true)}>References</button>
+			</div>
+		</div>
+		{sources && <PackInfo {...sources} />}
+		{exporting && slice && sources && <ExportPanel renderer={renderer} sampler={sampler} slice={slice} name={sources.fileResource.replace(/^.*[:/]/, '')} onClose={() => setExporting(false)} />}
+		{showingGraph && sources && update.current && <GraphPanel {...sources} data={update.current.data} onClose={() => setShowingGraph(false)} />}
+		<div class="side-panels">
+			{slice && <ValuePanel renderer={renderer} sampler={sampler} slice={slice} viewKey={JSON.stringify([viewX, viewY, viewScale, viewConfig])} />}
+			{sampler.inspect && slice && <InspectorPanel renderer={renderer} sampler={sampler} slice={slice} hovered={hovered} />}
+		</div>
+		{sampler.profile && <ProfilePanel renderer={renderer} sampler={sampler} slice={slice} />}
+		{statistics && <StatisticsPanel {...statistics} renderer={renderer} seed={seed} onClose={() => setStatistics(undefined)} />}
+	</>
+}
+
+type TileCanvasProps = Omit<CanvasProps, 'onSetup' | 'onDraw' | 'onResize' | 'state'> & {
+	renderer: TileRenderer,
+	version: number,
+}
+
+function TileCanvas({ renderer, version, ...props }: TileCanvasProps) {
+	const ctx = useRef<CanvasRenderingContext2D>()
+	const onSetup = useCallback((canvas: HTMLCanvasElement) => {
+		ctx.current = canvas.getContext('2d') ?? undefined
+	}, [])
+	const onResize = useCallback(() => {}, [])
+	const onDraw = useCallback((transform: mat3) => {
+		if (!ctx.current) return
+		renderer.draw(ctx.current, transform)
+	}, [renderer])
+
+	return <InteractiveCanvas2D state={version} onSetup={onSetup} onResize={onResize} onDraw={onDraw} {...props} />
+}
+
+const BASELINES: Array<{ label: string, baseline: Baseline }> = [
+	{ label: 'Vanilla', baseline: { kind: 'vanilla' } },
+	{ label: 'Git HEAD', baseline: { kind: 'git' } },
+	{ label: 'Other file…', baseline: { kind: 'file' } },
+]
+
+const COMPARE_MODES: Array<{ mode: Compare['mode'], label: string }> = [
+	{ mode: 'side-by-side', label: 'Side by side' },
+	{ mode: 'swipe', label: 'Swipe' },
+	{ mode: 'difference', label: 'Difference' },
+]
+
+function CompareControls({ compare, label, onChange }: { compare: Compare | undefined, label: string | undefined, onChange: (compare: Compare | undefined) => void }) {
+	const changeBaseline = (value: string) => {
+		const option = BASELINES[parseInt(value)]
+		onChange(option ? { mode: compare?.mode ?? 'side-by-side', baseline: option.baseline } : undefined)
+	}
+	const selected = compare ? BASELINES.findIndex(b => b.baseline.kind === compare.baseline.kind) : -1
+
+	return <div class="compare-config">
+		<label>Compare</label>
+		<select value={selected} onChange={e => changeBaseline((e.target as HTMLSelectElement).value)}>
+			<option value={-1}>Off</option>
+			{BASELINES.map((b, i) => <option value={i}>{i === selected && label ? label : b.label}</option>)}
+		</select>
+		{compare && COMPARE_MODES.map(({ mode, label }) =>
+			<button class={`compare-mode${mode === compare.mode ? ' selected' : ''}`} onClick={() => onChange({ ...compare, mode })}>{label}</button>
+		)}
+	</div>
+}
+
+function SeedControls({ seed, onChange }: { seed: string, onChange: (seed: string) => void }) {
+	return <div class="seed-config">
+		<label>Seed</label>
+		<input type="text" value={seed} onChange={e => onChange(parseSeed((e.target as HTMLInputElement).value))} />
+		<button title="Random seed" onClick={() => onChange(randomSeed())}>Randomize</button>
+	</div>
+}
+
+const SLICE_AXES: Array<{ axis: Slice['axis'], label: string, fixed: string, range: [number, number] }> = [
+	{ axis: 'xz', label: 'XZ', fixed: 'Y', range: [-64, 320] },
+	{ axis: 'xy', label: 'XY', fixed: 'Z', range: [-1024, 1024] },
+	{ axis: 'zy', label: 'ZY', fixed: 'X', range: [-1024, 1024] },
+]
+
+function SliceControls({ slice, onChange }: { slice: Slice, onChange: (slice: Slice) => void }) {
+	const current = SLICE_AXES.find(a => a.axis === slice.axis) ?? SLICE_AXES[0]
+	const changeCoord = (value: string) => {
+		const coord = parseInt(value)
+		if (!isNaN(coord)) {
+			onChange({ ...slice, coord })
+		}
+	}
+
+	return <div class="slice-config">
+		{SLICE_AXES.map(({ axis, label }) =>
+			<button class={`slice-axis${axis === slice.axis ? ' selected' : ''}`} onClick={() => onChange({ ...slice, axis })}>{label}</button>
+		)}
+		<label>{current.fixed}</label>
+		<input type="range" min={current.range[0]} max={current.range[1]} value={slice.coord} onInput={e => changeCoord((e.target as HTMLInputElement).value)} />
+		<input type="number" value={slice.coord} onChange={e => changeCoord((e.target as HTMLInputElement).value)} />
+	</div>
+}
+
+function LocateControls({ data, onLocate }: { data: Record<string, Record<string, string>>, onLocate: (query: string) => Promise<Located | undefined> }) {
+	const [query, setQuery] = useState('')
+	const [status, setStatus] = useState<string>()
+	const [result, setResult] = useState<Located>()
+	const biomes = useMemo(() => [
+		...Object.keys(data['worldgen/biome'] ?? {}),
+		...Object.keys(data['tags/worldgen/biome'] ?? {}).map(id => `#${id}`),
+	].sort(), [data])
+
+	const run = () => {
+		if (query.trim() === '') return
+		setStatus('Searching…')
+		setResult(undefined)
+		onLocate(query.trim()).then(located => {
+			setResult(located)
+			setStatus(located ? undefined : `Could not find ${query.trim()} nearby`)
+		}).catch(e => {
+			setStatus((e as Error).message)
+		})
+	}
+	const coords = result?.pos.join(' ')
+
+	return <>
+		<div class="locate-config">
+			<label>Locate</label>
+			<input type="text" list="locate-biomes" placeholder="Biome or #tag" value={query} onInput={e => setQuery((e.target as HTMLInputElement).value)} onKeyDown={e => { if (e.key === 'Enter') run() }} />
+			<datalist id="locate-biomes">{biomes.map(id => <option value={id} />)}</datalist>
+			<button onClick={run}>Locate</button>
+		</div>
+		{(result || status) && <div class="locate-config">
+			{result && <>
+				<span class="locate-result">{result.biome} at {coords} ({result.distance} blocks away)</span>
+				<button title="Copy coordinates" onClick={() => vscode.postMessage({ type: 'copy', text: coords! })}>Copy</button>
+			</>}
+			{status && <span class="locate-result">{status}</span>}
+		</div>}
 	</>
 }
+
+const STATISTICS_COLUMNS: Array<{ key: keyof BiomeStatistics, label: string, format: (s: BiomeStatistics) => string }> = [
+	{ key: 'biome', label: 'Biome', format: s => s.biome },
+	{ key: 'coverage', label: 'Coverage', format: s => `${s.coverage.toFixed(2)}%` },
+	{ key: 'regions', label: 'Regions', format: s => s.regions.toLocaleString() },
+	{ key: 'averageRegionSize', label: 'Avg. region size', format: s => `${Math.round(s.averageRegionSize).toLocaleString()} blocks²` },
+]
+
+type StatisticsPanelProps = StatisticsRequest & {
+	renderer: TileRenderer,
+	seed: string,
+	onClose: () => void,
+}
+
+function StatisticsPanel({ area, possibleBiomes, name, renderer, seed, onClose }: StatisticsPanelProps) {
+	const [progress, setProgress] = useState(0)
+	const [statistics, setStatistics] = useState<BiomeStatistics[]>()
+	const [error, setError] = useState<string>()
+	const [sort, setSort] = useState<{ key: keyof BiomeStatistics, descending: boolean }>({ key: 'coverage', descending: true })
+
+	useEffect(() => {
+		setStatistics(undefined)
+		setError(undefined)
+		renderer.biomeStatistics(area, setProgress).then(strips => {
+			setStatistics(mergeStrips(strips, area, possibleBiomes))
+		}).catch(e => {
+			setError((e as Error).message)
+		})
+		return () => renderer.cancel('statistics')
+	}, [renderer, area])
+
+	const sorted = useMemo(() => {
+		if (!statistics) return []
+		const direction = sort.descending ? -1 : 1
+		return [...statistics].sort((a, b) => {
+			const [x, y] = [a[sort.key], b[sort.key]]
+			return direction * (typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number))
+		})
+	}, [statistics, sort])
+	const missing = sorted.filter(s => s.samples === 0)
+
+	const changeSort = (key: keyof BiomeStatistics) => {
+		setSort({ key, descending: key === sort.key ? !sort.descending : key !== 'biome' })
+	}
+	const save = (format: 'csv' | 'json') => {
+		const content = format === 'csv'
+			? statisticsToCsv(sorted)
+			: JSON.stringify({ seed, area, biomes: sorted }, null, 2) + '\n'
+		vscode.postMessage({ type: 'save', name: `${name}-biomes.${format}`, content })
+	}
+	const size = area.width * area.step
+
+	return <div class="statistics-panel">
+		<div class="statistics-header">
+			<span>Biomes in {size}×{size} blocks around X={area.x + size / 2} Z={area.z + size / 2}</span>
+			{statistics && <>
+				<button onClick={() => save('csv')}>Export CSV</button>
+				<button onClick={() => save('json')}>Export JSON</button>
+			</>}
+			<button onClick={onClose}>{statistics || error ? 'Close' : 'Cancel'}</button>
+		</div>
+		{!statistics && !error && <div>Sampling… {Math.floor(progress / area.rows * 100)}%</div>}
+		{error && <div>{error}</div>}
+		{statistics && <>
+			{missing.length > 0 && <div class="statistics-missing">Never appear: {missing.map(s => s.biome).join(', ')}</div>}
+			<table>
+				<thead>
+					<tr>{STATISTICS_COLUMNS.map(({ key, label }) =>
+						<th onClick={() => changeSort(key)}>{label}{key === sort.key ? (sort.descending ? ' ▼' : ' ▲') : ''}</th>
+					)}</tr>
+				</thead>
+				<tbody>
+					{sorted.map(s => <tr class={s.samples === 0 ? 'missing' : ''}>
+						{STATISTICS_COLUMNS.map(({ format }) => <td>{format(s)}</td>)}
+					</tr>)}
+				</tbody>
+			</table>
+		</>}
+	</div>
+}
+
+/**
+ * Delay after the last change before the values are sampled again.
+ */
+const VALUE_UPDATE_DELAY = 300
+
+type ValuePanelProps = {
+	renderer: TileRenderer,
+	sampler: Sampler,
+	slice: Slice,
+	/**
+	 * Changes whenever the visible area or the config changes.
+	 */
+	viewKey: string,
+}
+
+function ValuePanel({ renderer, sampler, slice, viewKey }: ValuePanelProps) {
+	const [open, setOpen] = useState(false)
+	const [region, setRegion] = useState<ValueRegion>()
+	const [statistics, setStatistics] = useState<ValueStatistics>()
+	const [error, setError] = useState<string>()
+
+	useEffect(() => {
+		if (!open) return
+		const timeout = setTimeout(() => {
+			const target = region ?? renderer.visibleRegion
+			if (!target) return
+			renderer.valueStatistics(target).then(result => {
+				setStatistics(result)
+				setError(undefined)
+			}).catch(e => {
+				setError((e as Error).message)
+			})
+		}, VALUE_UPDATE_DELAY)
+		return () => clearTimeout(timeout)
+	}, [open, region, renderer, sampler, slice, viewKey])
+
+	const selectRegion = (enabled: boolean) => {
+		const visible = renderer.visibleRegion
+		setRegion(enabled && visible ? {
+			u: Math.floor(visible.u),
+			v: Math.floor(visible.v),
+			width: Math.ceil(visible.width),
+			height: Math.ceil(visible.height),
+		} : undefined)
+	}
+	const changeBound = (axis: 'u' | 'v', bound: 'min' | 'max', input: string) => {
+		const value = parseInt(input)
+		if (!region || isNaN(value)) return
+		const size = axis === 'u' ? 'width' : 'height'
+		const [min, max] = [region[axis], region[axis] + region[size]]
+		const [newMin, newMax] = bound === 'min' ? [value, max] : [min, value]
+		if (newMax <= newMin) return
+		setRegion({ ...region, [axis]: newMin, [size]: newMax - newMin })
+	}
+	const [uLabel, vLabel] = slice.axis.toUpperCase().split('')
+	const peak = Math.max(...statistics?.histogram ?? [1])
+	const binSize = statistics ? (statistics.max - statistics.min) / statistics.histogram.length : 0
+
+	return <details class="value-info" onToggle={e => setOpen((e.target as HTMLDetailsElement).open)}>
+		<summary>Values</summary>
+		<div class="value-region">
+			<button class={`value-target${region ? '' : ' selected'}`} onClick={() => selectRegion(false)}>View</button>
+			<button class={`value-target${region ? ' selected' : ''}`} onClick={() => selectRegion(true)}>Region</button>
+		</div>
+		{region && ([['u', uLabel], ['v', vLabel]] as const).map(([axis, label]) => {
+			const min = region[axis]
+			const max = min + region[axis === 'u' ? 'width' : 'height']
+			return <div class="value-region">
+				<label>{label}</label>
+				<input type="number" value={min} onChange={e => changeBound(axis, 'min', (e.target as HTMLInputElement).value)} />
+				<input type="number" value={max} onChange={e => changeBound(axis, 'max', (e.target as HTMLInputElement).value)} />
+			</div>
+		})}
+		{error && <div>{error}</div>}
+		{statistics && statistics.count === 0 && <div>No numeric values</div>}
+		{statistics && statistics.count > 0 && <>
+			<table class="value-summary">
+				<tr><td>Min</td><td>{formatValue(statistics.min)}</td></tr>
+				<tr><td>Max</td><td>{formatValue(statistics.max)}</td></tr>
+				<tr><td>Mean</td><td>{formatValue(statistics.mean)}</td></tr>
+				<tr><td>Median</td><td>{formatValue(statistics.median)}</td></tr>
+				<tr><td>Std. dev.</td><td>{formatValue(statistics.stdDev)}</td></tr>
+				<tr><td>Samples</td><td>{statistics.count.toLocaleString()}{statistics.step > 1 ? `, every ${statistics.step} blocks` : ''}</td></tr>
+			</table>
+			<div class="histogram">
+				{statistics.histogram.map((count, i) =>
+					<div style={{ height: `${count / peak * 100}%` }} title={`${formatValue(statistics.min + i * binSize)} to ${formatValue(statistics.min + (i + 1) * binSize)}: ${count}`} />
+				)}
+			</div>
+			<div class="legend-labels">
+				<span>{formatValue(statistics.min)}</span>
+				<span>{formatValue(statistics.max)}</span>
+			</div>
+		</>}
+	</details>
+}
+
+const GRAPH_NODE_WIDTH = 220
+const GRAPH_NODE_HEIGHT = 22
+const GRAPH_COLUMN_GAP = 40
+const GRAPH_ROW_GAP = 8
+const GRAPH_LABEL_LENGTH = 30
+
+type GraphPanelProps = Sources & {
+	data: Record<string, Record<string, string>>,
+	onClose: () => void,
+}
+
+function GraphPanel({ fileType, fileResource, packs, origins, data, onClose }: GraphPanelProps) {
+	const [selected, setSelected] = useState<number>()
+	const graph = useMemo(() => buildDependencyGraph(data, origins, fileType, fileResource), [data, origins, fileType, fileResource])
+	const layout = useMemo(() => layoutGraph(graph), [graph])
+	const missing = graph.nodes.filter(node => node.missing)
+
+	const position = (index: number) => {
+		const { column, row } = layout.positions[index]
+		return [column * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP), row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP)]
+	}
+	const origin = (index: number) => {
+		const node = graph.nodes[index]
+		return node.missing ? 'missing' : node.pack === undefined ? 'vanilla' : packs[node.pack]
+	}
+	const label = (identifier: string) => {
+		return identifier.length > GRAPH_LABEL_LENGTH ? `…${identifier.slice(identifier.length - GRAPH_LABEL_LENGTH + 1)}` : identifier
+	}
+	const open = (index: number, preview: boolean) => {
+		const { key, identifier } = graph.nodes[index]
+		vscode.postMessage({ type: 'open', key, identifier, preview })
+	}
+	const width = layout.columns * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP) - GRAPH_COLUMN_GAP
+	const height = layout.rows * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP) - GRAPH_ROW_GAP
+	const node = selected === undefined ? undefined : graph.nodes[selected]
+
+	return <div class="graph-panel">
+		<div class="statistics-header">
+			<span>References of {fileResource}, {graph.nodes.length - 1} resources</span>
+			<button onClick={onClose}>Close</button>
+		</div>
+		<div class="graph-legend">
+			<span><span class="legend-swatch graph-pack"></span>pack</span>
+			<span><span class="legend-swatch graph-vanilla"></span>vanilla</span>
+			<span><span class="legend-swatch graph-missing"></span>missing</span>
+			<span><span class="legend-swatch graph-cycle"></span>cycle</span>
+		</div>
+		{missing.length > 0 && <div class="graph-problem">Missing: {missing.map(n => n.identifier).join(', ')}</div>}
+		{graph.cycles.map(cycle => <div class="graph-problem">
+			Cycle: {[...cycle, cycle[0]].map(i => graph.nodes[i].identifier).join(' → ')}
+		</div>)}
+		<div class="graph-canvas">
+			<svg width={width + 2} height={height + 2} viewBox={`-1 -1 ${width + 2} ${height + 2}`}>
+				{graph.edges.map(edge => {
+					const [x1, y1] = position(edge.from)
+					const [x2, y2] = position(edge.to)
+					const [startX, startY] = [x1 + GRAPH_NODE_WIDTH, y1 + GRAPH_NODE_HEIGHT / 2]
+					const [endX, endY] = [x2, y2 + GRAPH_NODE_HEIGHT / 2]
+					// Edges that close a cycle point backwards, they bend around the nodes
+					const bend = edge.cycle ? Math.max(GRAPH_COLUMN_GAP, startX - endX) : GRAPH_COLUMN_GAP / 2
+					return <path class={`graph-edge${edge.cycle ? ' cycle' : ''}`} d={`M${startX},${startY} C${startX + bend},${startY} ${endX - bend},${endY} ${endX},${endY}`} />
+				})}
+				{graph.nodes.map((n, i) => {
+					const [x, y] = position(i)
+					const kind = n.missing ? 'graph-missing' : n.pack === undefined ? 'graph-vanilla' : 'graph-pack'
+					return <g class={`graph-node ${kind}${n.cycle ? ' cycle' : ''}${i === selected ? ' selected' : ''}${i === 0 ? ' root' : ''}`} transform={`translate(${x},${y})`}
+						onClick={() => setSelected(i)} onDblClick={() => !n.missing && open(i, false)}>
+						<title>{n.key} {n.identifier} ({origin(i)})</title>
+						<rect width={GRAPH_NODE_WIDTH} height={GRAPH_NODE_HEIGHT} rx={n.key === 'worldgen/noise' ? GRAPH_NODE_HEIGHT / 2 : 3} />
+						<text x={8} y={GRAPH_NODE_HEIGHT / 2}>{label(n.identifier)}</text>
+					</g>
+				})}
+			</svg>
+		</div>
+		<div class="statistics-header">
+			{node
+				? <>
+					<span>{node.key} {node.identifier} <span class="pack-name">{origin(selected!)}</span></span>
+					<button disabled={node.missing} onClick={() => open(selected!, false)}>Open</button>
+					<button disabled={node.missing} onClick={() => open(selected!, true)}>Preview</button>
+				</>
+				: <span>Select a resource to open or preview it, or double-click to open it</span>}
+		</div>
+	</div>
+}
+
+/**
+ * Nodes with at least this share of the total time start expanded.
+ */
+const PROFILE_EXPAND_SHARE = 0.05
+
+type ProfilePanelProps = {
+	renderer: TileRenderer,
+	sampler: Sampler,
+	slice: Slice | undefined,
+}
+
+function ProfilePanel({ renderer, sampler, slice }: ProfilePanelProps) {
+	const [progress, setProgress] = useState<number>()
+	const [report, setReport] = useState<ProfileReport>()
+	const [error, setError] = useState<string>()
+
+	useEffect(() => {
+		setReport(undefined)
+		setError(undefined)
+		return () => renderer.cancel('profile')
+	}, [renderer, sampler, slice])
+
+	const run = () => {
+		const region = renderer.visibleRegion
+		if (!region) return
+		setProgress(0)
+		setError(undefined)
+		renderer.profile(region, setProgress).then(result => {
+			setReport(result)
+		}).catch(e => {
+			setError((e as Error).message)
+		}).finally(() => {
+			setProgress(undefined)
+		})
+	}
+
+	const total = report ? report.nodes[report.root].time : 0
+	const warned = report?.nodes.filter(node => node.warnings.length > 0) ?? []
+	const formatTime = (time: number) => `${time.toFixed(1)} ms`
+	const share = (time: number) => total > 0 ? time / total : 0
+
+	// Nodes of referenced density functions are expanded where they first appear
+	const expanded = new Set<number>()
+	const renderNode = (node: ProfileNode): h.JSX.Element => {
+		const shared = expanded.has(node.id)
+		expanded.add(node.id)
+		const children = shared ? [] : node.children
+			.filter((id, i) => node.children.indexOf(id) === i)
+			.map(id => report!.nodes[id])
+			.sort((a, b) => b.time - a.time)
+		const row = <div class={`profile-row${node.warnings.length > 0 ? ' warned' : ''}`} title={node.warnings.join('\n')}>
+			<span class="profile-label">
+				{node.label}
+				{node.reference && <span class="profile-reference"> {node.reference}{shared ? ' (see above)' : ''}</span>}
+			</span>
+			<span class="profile-bar" style={{ width: `${share(node.time) * 100}%` }}></span>
+			<span class="profile-time">{(share(node.time) * 100).toFixed(1)}%</span>
+			<span class="profile-time">{formatTime(node.self)}</span>
+			<span class="profile-time">{Number((node.count / report!.samples).toPrecision(3))}×</span>
+		</div>
+		if (children.length === 0) {
+			return <div class="profile-leaf">{row}</div>
+		}
+		return <details class="profile-node" open={share(node.time) >= PROFILE_EXPAND_SHARE}>
+			<summary>{row}</summary>
+			{children.map(renderNode)}
+		</details>
+	}
+
+	return <details class="profile-info">
+		<summary>Profile</summary>
+		<div class="profile-controls">
+			{progress === undefined
+				? <button onClick={run}>Profile view</button>
+				: <>
+					<span>Profiling… {Math.floor(progress * 100)}%</span>
+					<button onClick={() => renderer.cancel('profile')}>Cancel</button>
+				</>}
+		</div>
+		{error && <div>{error}</div>}
+		{report && <>
+			<div>
+				{report.samples.toLocaleString()} samples{report.step > 1 ? `, every ${report.step} blocks` : ''}, {formatTime(total)}.
+				Times include the overhead of profiling.
+			</div>
+			{warned.length > 0 && <ul class="profile-warnings">
+				{warned.flatMap(node => node.warnings.map(warning =>
+					<li><b>{node.reference ?? node.label}</b>: {warning}</li>
+				))}
+			</ul>}
+			<div class="profile-row profile-header">
+				<span class="profile-label">Node</span>
+				<span class="profile-time">Total</span>
+				<span class="profile-time">Self</span>
+				<span class="profile-time">Per sample</span>
+			</div>
+			<div class="profile-tree">
+				{renderNode(report.nodes[report.root])}
+			</div>
+		</>}
+	</details>
+}
+
+type InspectorPanelProps = {
+	renderer: TileRenderer,
+	sampler: Sampler,
+	slice: Slice,
+	/**
+	 * Position in the slice under the mouse, kept after the mouse leaves the canvas.
+	 */
+	hovered: [number, number] | undefined,
+}
+
+function InspectorPanel({ renderer, sampler, slice, hovered }: InspectorPanelProps) {
+	const [open, setOpen] = useState(false)
+	const [pinned, setPinned] = useState<[number, number]>()
+	const [inspection, setInspection] = useState<Inspection>()
+	const [error, setError] = useState<string>()
+	const pos = pinned ?? hovered
+
+	// Evaluated on a worker while open, with one request at a time. Positions that the
+	// mouse passes while a request is running are skipped, except for the last one.
+	const latest = useRef<[number, number]>()
+	const running = useRef(false)
+	useEffect(() => {
+		if (!open || !pos) return
+		// A new array for every change, including a new sampler at the same position
+		latest.current = [...pos]
+		if (running.current) return
+		const run = () => {
+			const target = latest.current!
+			running.current = true
+			renderer.inspect(...target).then(result => {
+				setInspection(result)
+				setError(undefined)
+			}).catch(e => {
+				if ((e as Error).message !== 'Cancelled') {
+					setError((e as Error).message)
+				}
+			}).finally(() => {
+				running.current = false
+				if (latest.current !== target) run()
+			})
+		}
+		run()
+	}, [open, renderer, sampler, slice, pos?.[0], pos?.[1]])
+	useEffect(() => () => renderer.cancel('inspect'), [renderer])
+
+	const showSource = (node: InspectedNode) => {
+		if (node.resource === undefined) {
+			vscode.postMessage({ type: 'reveal', path: node.path })
+		} else {
+			vscode.postMessage({ type: 'open', key: 'worldgen/density_function', identifier: node.resource, preview: false, path: node.path })
+		}
+	}
+
+	return <details class="inspector-info" onToggle={e => setOpen((e.target as HTMLDetailsElement).open)}>
+		<summary>Inspector</summary>
+		<div class="inspector-controls">
+			<span>{inspection ? `X=${inspection.pos[0]} Y=${inspection.pos[1]} Z=${inspection.pos[2]}` : 'Hover over the preview'}</span>
+			<button disabled={!pos} onClick={() => setPinned(pinned ? undefined : pos)}>{pinned ? 'Unpin' : 'Pin'}</button>
+		</div>
+		{error && <div>{error}</div>}
+		{inspection && !error && <div class="inspector-tree">
+			<InspectorNode node={inspection.root} inspection={inspection} ancestors={[]} onShowSource={showSource} />
+		</div>}
+	</details>
+}
+
+type InspectorNodeProps = {
+	node: InspectedNode,
+	inspection: Inspection,
+	/**
+	 * References that contain this node, which aren't expanded again.
+	 */
+	ancestors: string[],
+	onShowSource: (node: InspectedNode) => void,
+}
+
+function InspectorNode({ node, inspection, ancestors, onShowSource }: InspectorNodeProps) {
+	// References are collapsed and only rendered when expanded, they can be large and appear many times
+	const [expanded, setExpanded] = useState(false)
+	const reference = node.reference !== undefined && !ancestors.includes(node.reference)
+		? inspection.references[node.reference]
+		: undefined
+	const row = <div class="inspector-row">
+		<span class="inspector-label" title={node.arguments.join('\n')}>
+			{node.field && <span class="inspector-field">{node.field}: </span>}
+			{node.type}
+			{node.cycle && <span class="inspector-cycle"> (cycle)</span>}
+			{node.arguments.length > 0 && <span class="inspector-arguments"> {node.arguments.join(', ')}</span>}
+		</span>
+		<span class={`inspector-value${node.value === undefined ? ' error' : ''}`}>{node.value?.toPrecision(3) ?? 'error'}</span>
+		<span class="inspector-source" title="Show in JSON" onClick={e => {
+			// Doesn't toggle the details of the row
+			e.preventDefault()
+			onShowSource(node)
+		}}>{'{…}'}</span>
+	</div>
+	if (reference) {
+		return <details class="inspector-node" onToggle={e => setExpanded((e.target as HTMLDetailsElement).open)}>
+			<summary>{row}</summary>
+			{expanded && <InspectorNode node={reference} inspection={inspection} ancestors={[...ancestors, node.reference!]} onShowSource={onShowSource} />}
+		</details>
+	}
+	if (node.children.length === 0) {
+		return <div class="inspector-leaf">{row}</div>
+	}
+	return <details class="inspector-node" open>
+		<summary>{row}</summary>
+		{node.children.map(child => <InspectorNode node={child} inspection={inspection} ancestors={ancestors} onShowSource={onShowSource} />)}
+	</details>
+}
+
+const MAX_IMAGE_SIZE = 8192
+
+type ExportPanelProps = {
+	renderer: TileRenderer,
+	sampler: Sampler,
+	slice: Slice,
+	name: string,
+	onClose: () => void,
+}
+
+function ExportPanel({ renderer, sampler, slice, name, onClose }: ExportPanelProps) {
+	const [region, setRegion] = useState<ValueRegion>(() => {
+		const visible = renderer.visibleRegion ?? { u: -128, v: -128, width: 256, height: 256 }
+		return { u: Math.floor(visible.u), v: Math.floor(visible.v), width: Math.ceil(visible.width), height: Math.ceil(visible.height) }
+	})
+	const [scale, setScale] = useState(1)
+	const [legend, setLegend] = useState(true)
+	const [grid, setGrid] = useState(false)
+	const [gridSpacing, setGridSpacing] = useState(() => niceStep(region.width / 8))
+	const [progress, setProgress] = useState<number>()
+	const [error, setError] = useState<string>()
+	useEffect(() => () => renderer.cancel('image'), [renderer])
+
+	const area = imageArea(region, scale)
+	const { width, height } = area
+	const tooLarge = width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE
+	const hasLegend = sampler.drawLegend !== undefined
+
+	const changeBound = (axis: 'u' | 'v', bound: 'min' | 'max', input: string) => {
+		const value = parseInt(input)
+		if (isNaN(value)) return
+		const size = axis === 'u' ? 'width' : 'height'
+		const [min, max] = [region[axis], region[axis] + region[size]]
+		const [newMin, newMax] = bound === 'min' ? [value, max] : [min, value]
+		if (newMax <= newMin) return
+		setRegion({ ...region, [axis]: newMin, [size]: newMax - newMin })
+	}
+	const changeScale = (value: number) => {
+		if (value > 0 && isFinite(value)) {
+			setScale(value)
+		}
+	}
+
+	const run = async () => {
+		setError(undefined)
+		setProgress(0)
+		try {
+			const pixels = await renderer.renderImage(area, setProgress)
+			const legendHeight = legend && sampler.drawLegend ? LEGEND_HEIGHT : 0
+			const canvas = document.createElement('canvas')
+			canvas.width = width
+			canvas.height = height + legendHeight
+			const ctx = canvas.getContext('2d')!
+			ctx.putImageData(new ImageData(pixels, width, height), 0, 0)
+			if (grid) {
+				drawGrid(ctx, region, scale, gridSpacing, slice)
+			}
+			if (legendHeight > 0) {
+				ctx.fillStyle = '#1e1e1e'
+				ctx.fillRect(0, height, width, legendHeight)
+				ctx.translate(0, height)
+				sampler.drawLegend!(ctx, width)
+			}
+			const content = canvas.toDataURL('image/png').replace(/^data:image\/png;base64,/, '')
+			vscode.postMessage({ type: 'save', name: `${name}.png`, content, encoding: 'base64' })
+			onClose()
+		} catch (e) {
+			setError((e as Error).message)
+			setProgress(undefined)
+		}
+	}
+
+	const [uLabel, vLabel] = slice.axis.toUpperCase().split('')
+	return <div class="export-panel">
+		{([['u', uLabel], ['v', vLabel]] as const).map(([axis, label]) => {
+			const min = region[axis]
+			const max = min + region[axis === 'u' ? 'width' : 'height']
+			return <div class="export-row">
+				<label>{label}</label>
+				<input type="number" value={min} onChange={e => changeBound(axis, 'min', (e.target as HTMLInputElement).value)} />
+				<input type="number" value={max} onChange={e => changeBound(axis, 'max', (e.target as HTMLInputElement).value)} />
+			</div>
+		})}
+		<div class="export-row">
+			<label>Blocks per pixel</label>
+			<input type="number" min={0} step="any" value={scale} onChange={e => changeScale(parseFloat((e.target as HTMLInputElement).value))} />
+		</div>
+		<div class="export-row">
+			<label>Resolution</label>
+			<input type="number" min={1} value={width} onChange={e => changeScale(region.width / parseInt((e.target as HTMLInputElement).value))} />
+			<span>× {height} px</span>
+		</div>
+		<div class="export-row">
+			<label><input type="checkbox" checked={legend && hasLegend} disabled={!hasLegend} onChange={e => setLegend((e.target as HTMLInputElement).checked)} />Legend</label>
+			<label><input type="checkbox" checked={grid} onChange={e => setGrid((e.target as HTMLInputElement).checked)} />Grid every</label>
+			<input type="number" min={1} value={gridSpacing} disabled={!grid} onChange={e => setGridSpacing(Math.max(1, parseInt((e.target as HTMLInputElement).value) || gridSpacing))} />
+			<span>blocks</span>
+		</div>
+		{tooLarge && <div>Images are limited to {MAX_IMAGE_SIZE}×{MAX_IMAGE_SIZE} pixels</div>}
+		{error && <div>{error}</div>}
+		<div class="export-row">
+			{progress !== undefined && <span>Rendering… {Math.floor(progress / height * 100)}%</span>}
+			<button disabled={tooLarge || progress !== undefined} onClick={run}>Export PNG</button>
+			<button onClick={onClose}>{progress !== undefined ? 'Cancel' : 'Close'}</button>
+		</div>
+	</div>
+}
+
+/**
+ * @returns A round step of 1, 2 or 5 times a power of ten, close to `size`.
+ */
+function niceStep(size: number) {
+	const power = Math.pow(10, Math.floor(Math.log10(Math.max(1, size))))
+	const factor = [1, 2, 5, 10].find(f => f * power >= size) ?? 10
+	return factor * power
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, region: ValueRegion, scale: number, spacing: number, slice: Slice) {
+	const [uLabel, vLabel] = slice.axis.toUpperCase().split('')
+	const top = region.v + region.height
+	ctx.font = '11px sans-serif'
+	ctx.textBaseline = 'top'
+	ctx.lineWidth = 1
+	const label = (text: string, x: number, y: number) => {
+		ctx.strokeStyle = '#000a'
+		ctx.lineWidth = 3
+		ctx.strokeText(text, x, y)
+		ctx.fillStyle = '#fff'
+		ctx.fillText(text, x, y)
+	}
+	for (let u = Math.ceil(region.u / spacing) * spacing; u <= region.u + region.width; u += spacing) {
+		const x = Math.round((u - region.u) / scale) + 0.5
+		ctx.strokeStyle = '#fff6'
+		ctx.lineWidth = 1
+		ctx.beginPath()
+		ctx.moveTo(x, 0)
+		ctx.lineTo(x, ctx.canvas.height)
+		ctx.stroke()
+		label(`${uLabel}=${u}`, x + 3, 3)
+	}
+	for (let v = Math.ceil(region.v / spacing) * spacing; v <= top; v += spacing) {
+		const y = Math.round((top - v) / scale) + 0.5
+		ctx.strokeStyle = '#fff6'
+		ctx.lineWidth = 1
+		ctx.beginPath()
+		ctx.moveTo(0, y)
+		ctx.lineTo(ctx.canvas.width, y)
+		ctx.stroke()
+		label(`${vLabel}=${v}`, 3, y + 3)
+	}
+}
+
+function formatValue(value: number) {
+	return Number(value.toPrecision(4)).toString()
+}
+
+function PackInfo({ fileType, fileResource, packs, origins }: Sources) {
+	const getOrigin = (key: string, identifier: string) => {
+		const pack = origins[key]?.[identifier]
+		return pack === undefined ? 'vanilla' : packs[pack]
+	}
+
+	return <details class="pack-info">
+		<summary>{fileResource} <span class="pack-name">{getOrigin(fileType, fileResource)}</span></summary>
+		<div class="pack-resources">
+			{Object.entries(origins).flatMap(([key, identifiers]) => Object.keys(identifiers).sort().map(identifier =>
+				<div class="pack-resource">
+					<span>{key} {identifier}</span>
+					<span class="pack-name">{getOrigin(key, identifier)}</span>
+				</div>
+			))}
+		</div>
+	</details>
+}
@@ -0,0 +1,225 @@
+import { toViewError } from './errors'
+import { profileRegion } from './profiler'
+import { loadRegistries } from './registries'
+import type { Sampler } from './samplers'
+import { createSampler, DiffSampler, EmptySampler } from './samplers'
+import type { StatisticsArea, ValueRegion } from './statistics'
+import { computeStrip, computeValueStatistics } from './statistics'
+import { setPixel } from './colormap'
+import type { ImageArea, TileJob, WorkerRequest, WorkerResponse } from './tiles'
+import { queueTiles, START_STEP, TILE_SIZE } from './tiles'
+
+const worker = self as unknown as {
+	postMessage(message: WorkerResponse, transfer?: Transferable[]): void,
+	onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null,
+}
+
+let sampler: Sampler = new EmptySampler()
+let generation = 0
+let queue: TileJob[] = []
+let running = false
+const cancelled = new Set<number>()
+
+worker.onmessage = ({ data: message }) => {
+	if (message.generation < generation) return
+	if (message.generation > generation) {
+		generation = message.generation
+		queue = []
+	}
+	switch (message.type) {
+		case 'load':
+			try {
+				loadRegistries(message.data)
+				const json = JSON.parse(message.data[message.fileType][message.fileResource])
+				sampler = createSampler(message.fileType, json, message.seed)
+				if (message.baseline !== undefined) {
+					sampler = new DiffSampler(sampler, createSampler(message.fileType, JSON.parse(message.baseline), message.seed))
+				}
+				if (message.config) {
+					sampler.setConfig?.(message.config)
+				}
+				if (message.slice) {
+					sampler.setSlice?.(message.slice)
+				}
+			} catch (e) {
+				// The view loads the same data and reports the error
+				sampler = new EmptySampler()
+			}
+			break
+		case 'config':
+			sampler.setConfig?.(message.config)
+			break
+		case 'slice':
+			sampler.setSlice?.(message.slice)
+			break
+		case 'render':
+			queue = queueTiles(queue, message.tiles)
+			if (!running) {
+				running = true
+				processQueue().finally(() => running = false)
+			}
+			break
+		case 'locate':
+			try {
+				if (!sampler.locate) {
+					throw new Error('Cannot locate biomes in this preview')
+				}
+				const result = sampler.locate(message.query, message.origin)
+				worker.postMessage({ type: 'result', generation, id: message.id, result })
+			} catch (e) {
+				worker.postMessage({ type: 'result', generation, id: message.id, result: undefined, error: toViewError(e) })
+			}
+			break
+		case 'statistics':
+			computeStatistics(message.id, message.area)
+			break
+		case 'values':
+			try {
+				const result = computeValueStatistics((u, v) => sampler.sampleValue?.(u, v) ?? NaN, message.region)
+				worker.postMessage({ type: 'result', generation, id: message.id, result })
+			} catch (e) {
+				worker.postMessage({ type: 'result', generation, id: message.id, result: undefined, error: toViewError(e) })
+			}
+			break
+		case 'image':
+			renderImage(message.id, message.area)
+			break
+		case 'profile':
+			profile(message.id, message.region)
+			break
+		case 'inspect':
+			try {
+				if (!sampler.inspect) {
+					throw new Error('Cannot inspect this preview')
+				}
+				const result = sampler.inspect(...message.pos)
+				worker.postMessage({ type: 'result', generation, id: message.id, result })
+			} catch (e) {
+				worker.postMessage({ type: 'result', generation, id: message.id, result: undefined, error: toViewError(e) })
+			}
+			break
+		case 'cancel':
+			cancelled.add(message.id)
+			break
+	}
+}
+
+/**
+ * Renders one pass at a time, always picking the coarsest remaining pass so that
+ * the whole view fills in before any tile is refined. Yields between passes to
+ * receive new requests.
+ */
+async function processQueue() {
+	while (queue.length > 0) {
+		const job = queue.reduce((a, b) => b.step > a.step ? b : a)
+		try {
+			sampler.takeRange?.()
+			renderPass(job)
+			const range = sampler.takeRange?.()
+			const pixels = job.pixels.slice()
+			worker.postMessage({ type: 'tile', generation, key: job.key, step: job.step, pixels, range }, [pixels.buffer])
+			job.step /= 2
+			if (job.step < 1) {
+				finish(job)
+			}
+		} catch (e) {
+			console.error(e)
+			worker.postMessage({ type: 'failed', generation, key: job.key, error: toViewError(e) })
+			finish(job)
+		}
+		await new Promise(resolve => setTimeout(resolve))
+	}
+}
+
+/**
+ * Runs alongside rendering, with the sampler at the start even if another file is loaded.
+ */
+async function computeStatistics(id: number, area: StatisticsArea) {
+	const current = sampler
+	try {
+		if (!current.biome) {
+			throw new Error('Cannot compute biome statistics in this preview')
+		}
+		const result = await computeStrip((x, y, z) => current.biome!(x, y, z), area, progress => {
+			worker.postMessage({ type: 'progress', generation, id, progress })
+		}, () => cancelled.has(id))
+		worker.postMessage({ type: 'result', generation, id, result })
+	} catch (e) {
+		worker.postMessage({ type: 'result', generation, id, result: undefined, error: toViewError(e) })
+	} finally {
+		cancelled.delete(id)
+	}
+}
+
+/**
+ * Rows between progress updates of an image.
+ */
+const IMAGE_ROWS_PER_UPDATE = 16
+
+async function renderImage(id: number, area: ImageArea) {
+	const current = sampler
+	try {
+		const pixels = new Uint8ClampedArray(area.width * area.height * 4)
+		for (let j = 0; j < area.height; j += 1) {
+			for (let i = 0; i < area.width; i += 1) {
+				const color = current.sampleColor(Math.floor(area.x + i * area.scale), -Math.floor(area.y + j * area.scale), area.scale)
+				setPixel(pixels, 4 * (i + j * area.width), color)
+			}
+			if (j % IMAGE_ROWS_PER_UPDATE === IMAGE_ROWS_PER_UPDATE - 1) {
+				worker.postMessage({ type: 'progress', generation, id, progress: j + 1 })
+				await new Promise(resolve => setTimeout(resolve))
+				if (cancelled.has(id)) {
+					throw new Error('Cancelled')
+				}
+			}
+		}
+		worker.postMessage({ type: 'result', generation, id, result: pixels }, [pixels.buffer])
+	} catch (e) {
+		worker.postMessage({ type: 'result', generation, id, result: undefined, error: toViewError(e) })
+	} finally {
+		cancelled.delete(id)
+	}
+}
+
+/**
+ * Profiles an instrumented copy of the sampler, so that its timing isn't affected by the sample cache.
+ */
+async function profile(id: number, region: ValueRegion) {
+	const current = sampler
+	try {
+		if (!current.profile) {
+			throw new Error('Cannot profile this preview')
+		}
+		const result = await profileRegion(current.profile(), region, progress => {
+			worker.postMessage({ type: 'progress', generation, id, progress })
+		}, () => cancelled.has(id))
+		worker.postMessage({ type: 'result', generation, id, result })
+	} catch (e) {
+		worker.postMessage({ type: 'result', generation, id, result: undefined, error: toViewError(e) })
+	} finally {
+		cancelled.delete(id)
+	}
+}
+
+function finish(job: TileJob) {
+	queue = queue.filter(j => j !== job)
+}
+
+/**
+ * Samples every `step`-th pixel and fills the block it covers, skipping pixels
+ * that were already sampled by the previous, coarser pass.
+ */
+function renderPass(job: TileJob) {
+	const { step, pixels } = job
+	for (let i = 0; i < TILE_SIZE; i += step) {
+		for (let j = 0; j < TILE_SIZE; j += step) {
+			if (step < START_STEP && i % (step * 2) === 0 && j % (step * 2) === 0) continue
+			const color = sampler.sampleColor(Math.floor(job.x + i * job.scale), -Math.floor(job.y + j * job.scale), job.scale)
+			for (let u = i; u < i + step; u += 1) {
+				for (let v = j; v < j + step; v += 1) {
+					setPixel(pixels, 4 * (u + v * TILE_SIZE), color)
+				}
+			}
+		}
+	}
+}